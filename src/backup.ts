@@ -0,0 +1,131 @@
+import { Database, SQLiteError } from "bun:sqlite";
+import fs from "node:fs";
+import path from "node:path";
+import {
+	KvErrors,
+	KvInvalidArgumentError,
+	KvInvalidBackupError,
+	KvNotFoundError,
+} from "./error";
+import { SQL } from "./sql";
+import type { KvBackupOptions } from "./types";
+
+/** Milliseconds between scheduled backups when `interval` is not given. */
+export const DEFAULT_BACKUP_INTERVAL_MS = 60 * 60 * 1000;
+/** Scheduled backups kept when `keep` is not given. */
+export const DEFAULT_BACKUP_KEEP = 24;
+const DEFAULT_BACKUP_PREFIX = "backup";
+/** File name suffix written by `backupPath`, e.g. `2026-01-31T12-00-00-000Z.sqlite`. */
+const BACKUP_STAMP = /^\d{4}-\d{2}-\d{2}T[\d-]+Z\.sqlite$/;
+
+/**
+ * Validates scheduled backup options and fills in the defaults.
+ *
+ * @param options The `backups` option passed to `openKv`
+ * @returns The options with every field set
+ */
+export function resolveBackupOptions(
+	options: KvBackupOptions,
+): Required<KvBackupOptions> {
+	const resolved = {
+		dir: options.dir,
+		interval: options.interval ?? DEFAULT_BACKUP_INTERVAL_MS,
+		keep: options.keep ?? DEFAULT_BACKUP_KEEP,
+		prefix: options.prefix ?? DEFAULT_BACKUP_PREFIX,
+	};
+	if (!Number.isFinite(resolved.interval) || resolved.interval <= 0) {
+		throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_BACKUP_INTERVAL);
+	}
+	if (!Number.isInteger(resolved.keep) || resolved.keep < 1) {
+		throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_BACKUP_KEEP);
+	}
+	return resolved;
+}
+
+/**
+ * Builds the path of a scheduled backup. Names sort chronologically.
+ *
+ * @param options Resolved backup options
+ * @param date When the backup is taken
+ * @returns The backup file path
+ */
+export function backupPath(
+	options: Required<KvBackupOptions>,
+	date = new Date(),
+): string {
+	const stamp = date.toISOString().replace(/[:.]/g, "-");
+	return path.join(options.dir, `${options.prefix}-${stamp}.sqlite`);
+}
+
+/**
+ * Deletes the oldest scheduled backups so at most `keep` remain.
+ *
+ * @param options Resolved backup options
+ * @returns The deleted file paths
+ */
+export function pruneBackups(options: Required<KvBackupOptions>): string[] {
+	const head = `${options.prefix}-`;
+	const files = fs
+		.readdirSync(options.dir)
+		.filter(
+			(name) =>
+				name.startsWith(head) && BACKUP_STAMP.test(name.slice(head.length)),
+		)
+		.sort();
+	const stale = files
+		.slice(0, Math.max(0, files.length - options.keep))
+		.map((name) => path.join(options.dir, name));
+	for (const file of stale) {
+		fs.rmSync(file, { force: true });
+	}
+	return stale;
+}
+
+/**
+ * Checks that `srcPath` is an intact BunKV database and copies it to
+ * `destPath`. The copy is written next to the destination and renamed into
+ * place, so a failed restore leaves the old destination untouched.
+ *
+ * @param srcPath Backup file to restore from
+ * @param destPath Database file to replace
+ */
+export function restoreDatabase(srcPath: string, destPath: string) {
+	if (!fs.existsSync(srcPath)) {
+		throw new KvNotFoundError(KvErrors.ERROR_BACKUP_NOT_FOUND(srcPath));
+	}
+	const src = new Database(srcPath, { readonly: true });
+	const tmpPath = `${destPath}.restore`;
+	try {
+		if (!isIntactStore(src)) {
+			throw new KvInvalidBackupError(KvErrors.ERROR_INVALID_BACKUP(srcPath));
+		}
+		fs.mkdirSync(path.dirname(destPath), { recursive: true });
+		fs.rmSync(tmpPath, { force: true });
+		src.run(SQL.VACUUM_INTO, [tmpPath]);
+	} finally {
+		src.close();
+	}
+	// Stale WAL files of the old database must not be replayed onto the copy
+	for (const suffix of ["-wal", "-shm"]) {
+		fs.rmSync(destPath + suffix, { force: true });
+	}
+	fs.renameSync(tmpPath, destPath);
+}
+
+/**
+ * Whether a connection holds an uncorrupted database with a `kv` table.
+ * Files that are not SQLite databases at all also count as not intact.
+ */
+function isIntactStore(db: Database): boolean {
+	try {
+		const check = db.query(SQL.INTEGRITY_CHECK).get() as {
+			integrity_check: string;
+		};
+		return (
+			check.integrity_check === "ok" && !!db.query(SQL.SELECT_KV_TABLE).get()
+		);
+	} catch (error) {
+		if (error instanceof SQLiteError) return false;
+		throw error;
+	}
+}
@@ -0,0 +1,113 @@
+import { KvErrors, KvInvalidArgumentError } from "./error";
+import type { KvCompressionAlgorithm, KvCompressionOptions } from "./types";
+
+/** Values smaller than this many bytes are stored as is by default. */
+export const DEFAULT_COMPRESSION_THRESHOLD = 1024;
+
+const LEVELS: Record<KvCompressionAlgorithm, [min: number, max: number]> = {
+	gzip: [1, 9],
+	zstd: [1, 22],
+};
+
+/**
+ * Validated compression settings.
+ */
+export interface ResolvedCompression {
+	algorithm: KvCompressionAlgorithm;
+	threshold: number;
+	level: number | undefined;
+}
+
+/**
+ * Validates the `compression` option.
+ *
+ * @param options The `compression` option passed to `openKv`
+ * @returns The settings, or null when compression is off
+ */
+export function resolveCompressionOptions(
+	options: KvCompressionOptions | undefined,
+): ResolvedCompression | null {
+	if (!options) return null;
+	const { algorithm, level } = options;
+	if (!isCompressionAlgorithm(algorithm)) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION(
+				"compression.algorithm",
+				'"gzip" or "zstd"',
+			),
+		);
+	}
+	const threshold = options.threshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+	if (!Number.isInteger(threshold) || threshold < 0) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION(
+				"compression.threshold",
+				"a non-negative integer",
+			),
+		);
+	}
+	const [min, max] = LEVELS[algorithm];
+	if (
+		level !== undefined &&
+		(!Number.isInteger(level) || level < min || level > max)
+	) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION(
+				"compression.level",
+				`an integer from ${min} to ${max}`,
+			),
+		);
+	}
+	return { algorithm, threshold, level };
+}
+
+/**
+ * @param name A name read from a row's encoding
+ * @returns Whether it names a supported compression algorithm
+ */
+export function isCompressionAlgorithm(
+	name: unknown,
+): name is KvCompressionAlgorithm {
+	return name === "gzip" || name === "zstd";
+}
+
+/**
+ * Compresses serialized value data.
+ *
+ * @param data Column data from a codec
+ * @param compression Resolved compression settings
+ * @returns The compressed bytes
+ */
+export function compress(
+	data: string | Uint8Array,
+	{ algorithm, level }: ResolvedCompression,
+): Uint8Array {
+	const bytes = (
+		typeof data === "string" ? new TextEncoder().encode(data) : data
+	) as Uint8Array<ArrayBuffer>;
+	if (algorithm === "zstd") {
+		return Bun.zstdCompressSync(bytes, { level });
+	}
+	return Bun.gzipSync(bytes, {
+		level: level as 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | undefined,
+	});
+}
+
+/**
+ * Restores data written by `compress`.
+ *
+ * @param data The stored bytes
+ * @param algorithm The algorithm recorded on the row
+ * @returns The codec's original column data, as bytes
+ */
+export function decompress(
+	data: string | Uint8Array,
+	algorithm: KvCompressionAlgorithm,
+): Uint8Array {
+	const bytes = (
+		typeof data === "string" ? Buffer.from(data) : data
+	) as Uint8Array<ArrayBuffer>;
+	return algorithm === "zstd"
+		? Bun.zstdDecompressSync(bytes)
+		: Bun.gunzipSync(bytes);
+}
@@ -0,0 +1,213 @@
+import { Database } from "bun:sqlite";
+import fs from "node:fs";
+import {
+	KvDatabaseError,
+	KvErrors,
+	KvInvalidArgumentError,
+	KvNotFoundError,
+} from "./error";
+import { SQL } from "./sql";
+import type { KvJournalMode, KvOptions, KvSynchronous } from "./types";
+
+/** Milliseconds a connection waits for a lock held by another one. */
+export const DEFAULT_BUSY_TIMEOUT_MS = 5000;
+/** Reader connections used for eventually consistent reads. */
+export const DEFAULT_READERS = 2;
+
+const JOURNAL_MODES: readonly KvJournalMode[] = [
+	"wal",
+	"delete",
+	"truncate",
+	"persist",
+	"memory",
+	"off",
+];
+const SYNCHRONOUS_MODES: readonly KvSynchronous[] = [
+	"off",
+	"normal",
+	"full",
+	"extra",
+];
+
+/**
+ * Connection settings taken from `KvOptions`, validated and with defaults.
+ */
+export interface ConnectionOptions {
+	journalMode: KvJournalMode;
+	synchronous: KvSynchronous | null;
+	busyTimeout: number;
+	cacheSize: number | null;
+	mmapSize: number | null;
+	readonly: boolean;
+	create: boolean;
+	readers: number;
+}
+
+/**
+ * Validates the connection options of `openKv` and fills in the defaults.
+ *
+ * @param options Store options
+ * @returns The connection settings
+ */
+export function resolveConnectionOptions(
+	options: KvOptions,
+): ConnectionOptions {
+	const resolved: ConnectionOptions = {
+		journalMode: options.journalMode ?? "wal",
+		synchronous: options.synchronous ?? null,
+		busyTimeout: options.busyTimeout ?? DEFAULT_BUSY_TIMEOUT_MS,
+		cacheSize: options.cacheSize ?? null,
+		mmapSize: options.mmapSize ?? null,
+		readonly: options.readonly ?? false,
+		create: options.create ?? true,
+		readers: options.readers ?? DEFAULT_READERS,
+	};
+	if (!JOURNAL_MODES.includes(resolved.journalMode)) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION("journalMode", JOURNAL_MODES.join(", ")),
+		);
+	}
+	if (
+		resolved.synchronous !== null &&
+		!SYNCHRONOUS_MODES.includes(resolved.synchronous)
+	) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION(
+				"synchronous",
+				SYNCHRONOUS_MODES.join(", "),
+			),
+		);
+	}
+	if (!Number.isInteger(resolved.busyTimeout) || resolved.busyTimeout < 0) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION("busyTimeout", "a non-negative integer"),
+		);
+	}
+	if (resolved.cacheSize !== null && !Number.isInteger(resolved.cacheSize)) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION("cacheSize", "an integer"),
+		);
+	}
+	if (
+		resolved.mmapSize !== null &&
+		(!Number.isInteger(resolved.mmapSize) || resolved.mmapSize < 0)
+	) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION("mmapSize", "a non-negative integer"),
+		);
+	}
+	if (!Number.isInteger(resolved.readers) || resolved.readers < 0) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION("readers", "a non-negative integer"),
+		);
+	}
+	return resolved;
+}
+
+/**
+ * Opens a SQLite connection and applies the connection settings.
+ *
+ * @param path File path to the SQLite database, or ":memory:"
+ * @param options Resolved connection settings
+ * @returns The open connection
+ */
+export function openDatabase(
+	path: string,
+	options: ConnectionOptions,
+): Database {
+	const isMemory = path === ":memory:";
+	if (isMemory && options.readonly) {
+		throw new KvInvalidArgumentError(KvErrors.ERROR_READONLY_MEMORY);
+	}
+	if (!isMemory && !fs.existsSync(path)) {
+		if (options.readonly || !options.create) {
+			throw new KvNotFoundError(KvErrors.ERROR_DATABASE_NOT_FOUND(path));
+		}
+		// make sure the directory exists or else create it
+		const dir = path.substring(0, path.lastIndexOf("/"));
+		if (dir) {
+			fs.mkdirSync(dir, { recursive: true });
+		}
+	}
+
+	const db = options.readonly
+		? new Database(path, { readonly: true })
+		: new Database(path);
+	try {
+		db.run(SQL.SET_BUSY_TIMEOUT(options.busyTimeout));
+		// In-memory databases only support their own journal; a read-only
+		// connection cannot change it and uses whatever the file has
+		if (!isMemory && !options.readonly) {
+			const row = db.query(SQL.SET_JOURNAL_MODE(options.journalMode)).get() as {
+				journal_mode: string;
+			};
+			if (row.journal_mode !== options.journalMode) {
+				throw new KvDatabaseError(
+					KvErrors.ERROR_JOURNAL_MODE_UNSUPPORTED(
+						options.journalMode,
+						row.journal_mode,
+					),
+				);
+			}
+		}
+		if (options.synchronous !== null) {
+			db.run(SQL.SET_SYNCHRONOUS(options.synchronous));
+		}
+		if (options.cacheSize !== null) {
+			db.run(SQL.SET_CACHE_SIZE(options.cacheSize));
+		}
+		if (options.mmapSize !== null) {
+			db.run(SQL.SET_MMAP_SIZE(options.mmapSize));
+		}
+	} catch (error) {
+		db.close();
+		throw error;
+	}
+	return db;
+}
+
+/**
+ * Read-only connections for reads with `consistency: "eventual"`.
+ * Connections are opened on first use and handed out round-robin, so
+ * concurrent iterators each get their own WAL snapshot and never hold up
+ * the writer connection.
+ */
+export class ReaderPool {
+	private readers: Database[] = [];
+	private cursor = 0;
+
+	/**
+	 * @param path File path of the database
+	 * @param options Connection settings of the writer
+	 * @param size Maximum number of connections
+	 */
+	constructor(
+		private path: string,
+		private options: ConnectionOptions,
+		private size: number,
+	) {}
+
+	/**
+	 * Returns the next reader connection.
+	 */
+	next(): Database {
+		if (this.readers.length < this.size) {
+			const reader = openDatabase(this.path, {
+				...this.options,
+				readonly: true,
+			});
+			this.readers.push(reader);
+			return reader;
+		}
+		this.cursor = (this.cursor + 1) % this.readers.length;
+		return this.readers[this.cursor] as Database;
+	}
+
+	/**
+	 * Closes every reader connection.
+	 */
+	close() {
+		for (const reader of this.readers) reader.close();
+		this.readers = [];
+	}
+}
@@ -1,4 +1,4 @@
-import { KvErrors } from "./error";
+import { KvErrors, KvInvalidKeyError } from "./error";
 import type { KvKey } from "./types";
 
 const NULL_BYTE = 0x00;
@@ -18,6 +18,10 @@ const TYPE_NUMBER = 0x30;
 const TYPE_BIGINT = 0x31;
 const TYPE_BOOLEAN = 0x40;
 
+// BigInt key parts are stored as fixed-width signed 64-bit integers
+const INT64_MIN = -(2n ** 63n);
+const INT64_MAX = 2n ** 63n - 1n;
+
 /**
  * Encodes a KvKey into a lexicographically sortable Uint8Array.
  *
@@ -74,6 +78,9 @@ export function encodeKey(key: KvKey): Uint8Array {
 			// Let's defer strict BigInt sorting or just use string repr for now (not efficient but sortable).
 			// Actually, let's skip complex BigInt for this step and throw or handle simply.
 			// We'll treat it as string in this MVP to be safe or implement 64-bit if needed.
+			if (part < INT64_MIN || part > INT64_MAX) {
+				throw new KvInvalidKeyError(KvErrors.ERROR_BIGINT_OUT_OF_RANGE);
+			}
 			const prefix = new Uint8Array([TYPE_BIGINT]);
 			// Simple approach: variable length or fixed 64-bit.
 			const data = new DataView(new ArrayBuffer(8));
@@ -94,92 +101,128 @@ export function encodeKey(key: KvKey): Uint8Array {
 			const suffix = new Uint8Array([NULL_BYTE]);
 			parts.push(concat(prefix, escaped, suffix));
 		} else {
-			throw new Error(KvErrors.ERROR_UNSUPPORTED_KEY_TYPE(typeof part));
+			throw new KvInvalidKeyError(
+				KvErrors.ERROR_UNSUPPORTED_KEY_TYPE(typeof part),
+			);
 		}
 	}
 
 	return concat(...parts);
 }
 
-// Minimal decoding needed for list results
 /**
  * Decodes an encoded key back into a KvKey.
- * NOTE: This implementation might be incomplete for complex nested keys in this MVP.
+ * This is the exact inverse of `encodeKey`.
  *
  * @param bytes The encoded bytes
  * @returns The decoded KvKey
  */
 export function decodeKey(bytes: Uint8Array): KvKey {
-	// This is much harder to implement fully without a cursor.
-	// For now we might store the original key as JSON text in a separate column?
-	// OR we just assume we can decode.
-	// Let's implement decoding.
-
 	const key: KvKey = [];
 	let i = 0;
 	while (i < bytes.length) {
 		const type = bytes[i++];
-		if (type === TYPE_STRING) {
-			const _start = i;
-			const _chunks: Uint8Array[] = [];
+		if (type === TYPE_STRING || type === TYPE_BYTES) {
+			// Terminated by a 0x00 that is not followed by the 0xFF escape
+			const out: number[] = [];
+			let terminated = false;
 			while (i < bytes.length) {
-				if (bytes[i] === NULL_BYTE) {
-					i++; // consume null
+				const byte = bytes[i++] as number;
+				if (byte === NULL_BYTE) {
+					if (bytes[i] === ESCAPE_BYTE) {
+						out.push(NULL_BYTE);
+						i++;
+						continue;
+					}
+					terminated = true;
 					break;
 				}
-				if (bytes[i] === NULL_BYTE && bytes[i + 1] === ESCAPE_BYTE) {
-					// Wait, my escape scheme was: 0x00 -> 0x00 0xFF.
-					// A real null is just 0x00.
-					// Ambiguity? The real terminator is 0x00 NOT followed by 0xFF.
-					// But 0x00 is the marker.
-					// Let's refine escape:
-					// Escape 0x00 as 0x01 0x01, and 0x01 as 0x01 0x02?
-					// Standard: Replaces 00 with 01 01, and 01 with 01 02.
-					// FoundationDB way: 0x00 encoded as 0x00 0xFF. Terminator is 0x00.
-					// Means if we see 0x00 0xFF, it's a byte 0x00.
-					// If we see 0x00 (and not 0xFF next), it's terminator.
-				}
-				i++;
+				out.push(byte);
+			}
+			if (!terminated) {
+				throw new KvInvalidKeyError(KvErrors.ERROR_INVALID_ENCODED_KEY);
 			}
-			// Real decoding logic is needed here.
-			// Simplified: Re-implement escape logic correctly above first.
+			const data = new Uint8Array(out);
+			key.push(type === TYPE_STRING ? new TextDecoder().decode(data) : data);
 		} else if (type === TYPE_NUMBER) {
-			const buf = bytes.slice(i, i + 8);
+			const buf = readFixed(bytes, i);
 			i += 8;
-			const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
-			let b0 = view.getUint8(0);
-			if ((b0 & 0x80) !== 0) {
-				b0 &= 0x7f;
-				view.setUint8(0, b0);
+			if (((buf[0] as number) & 0x80) !== 0) {
+				// Was positive: only the sign bit was toggled
+				buf[0] = (buf[0] as number) & 0x7f;
 			} else {
-				b0 ^= 0xff; // Was negative, untoggle all
-				view.setUint8(0, b0); // wait, need to invert all bytes
-				for (let k = 0; k < 8; k++) {
-					const val = buf[k];
-					if (val !== undefined) buf[k] = val ^ 0xff;
-				}
+				// Was negative: all bits were inverted
+				for (let k = 0; k < 8; k++) buf[k] = (buf[k] as number) ^ 0xff;
 			}
-			key.push(view.getFloat64(0, false));
-		} else if (type === TYPE_BOOLEAN) {
-			key.push(bytes[i++] === 1);
+			key.push(new DataView(buf.buffer).getFloat64(0, false));
 		} else if (type === TYPE_BIGINT) {
-			const buf = bytes.slice(i, i + 8);
+			const buf = readFixed(bytes, i);
 			i += 8;
-			if (buf[0] !== undefined) buf[0] ^= 0x80;
-			const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
-			key.push(view.getBigInt64(0, false));
+			buf[0] = (buf[0] as number) ^ 0x80;
+			key.push(new DataView(buf.buffer).getBigInt64(0, false));
+		} else if (type === TYPE_BOOLEAN) {
+			if (i >= bytes.length) {
+				throw new KvInvalidKeyError(KvErrors.ERROR_INVALID_ENCODED_KEY);
+			}
+			key.push(bytes[i++] === 1);
 		} else {
-			// Fallback or error
-			i++;
+			throw new KvInvalidKeyError(KvErrors.ERROR_INVALID_ENCODED_KEY);
 		}
 	}
-	// Note: decodeKey is incomplete/buggy in this thought block.
-	// BETTER ALTERNATIVE: Store the key serialization (JSON) in the DB alongside the encoded blob?
-	// DB: [encoded_key (BLOB, PK)], [key_json (TEXT)], [value (TEXT)]
-	// This wastes space but guarantees 100% fidelity without generic decoding headaches in MVP.
-	// I will use that approach for robustness.
-	return []; // Placeholder
+	return key;
 }
+
+/**
+ * Copies the fixed 8-byte payload of a number or bigint key part.
+ *
+ * @param bytes The encoded key
+ * @param offset Start of the payload
+ * @returns A fresh 8-byte array safe to mutate
+ */
+function readFixed(bytes: Uint8Array, offset: number): Uint8Array {
+	if (offset + 8 > bytes.length) {
+		throw new KvInvalidKeyError(KvErrors.ERROR_INVALID_ENCODED_KEY);
+	}
+	return bytes.slice(offset, offset + 8);
+}
+
+/**
+ * Compares two encoded keys byte by byte, as SQLite orders BLOBs.
+ *
+ * @returns A negative number if `a` sorts first, positive if `b` does, 0 if equal
+ */
+export function compareBytes(a: Uint8Array, b: Uint8Array): number {
+	const len = Math.min(a.length, b.length);
+	for (let i = 0; i < len; i++) {
+		const diff = (a[i] as number) - (b[i] as number);
+		if (diff !== 0) return diff;
+	}
+	return a.length - b.length;
+}
+
+/**
+ * Encodes an encoded key as an opaque, URL-safe list cursor.
+ *
+ * @param pk The encoded key of the last listed entry
+ * @returns The cursor string
+ */
+export function encodeCursor(pk: Uint8Array): string {
+	return Buffer.from(pk).toString("base64url");
+}
+
+/**
+ * Decodes a list cursor back into the encoded key it points at.
+ *
+ * @param cursor A cursor produced by `encodeCursor`
+ * @returns The encoded key
+ */
+export function decodeCursor(cursor: string): Uint8Array {
+	if (!/^[A-Za-z0-9_-]+$/.test(cursor)) {
+		throw new KvInvalidKeyError(KvErrors.ERROR_INVALID_CURSOR);
+	}
+	return new Uint8Array(Buffer.from(cursor, "base64url"));
+}
+
 /**
  * Escapes null bytes within a Uint8Array by replacing 0x00 with 0x00 0xFF.
  * This is a common byte stuffing technique to differentiate actual null bytes from terminators.
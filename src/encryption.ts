@@ -0,0 +1,144 @@
+import {
+	createCipheriv,
+	createDecipheriv,
+	createSecretKey,
+	KeyObject,
+	randomBytes,
+} from "node:crypto";
+import { KvErrors, KvInvalidArgumentError, KvInvalidValueError } from "./error";
+import type { KvEncryptionOptions } from "./types";
+
+/** Prefix of the encoding layer of encrypted rows, followed by the key ID. */
+export const ENCRYPTION_PREFIX = "aes-gcm:";
+
+// WebCrypto's AES-GCM defaults: 96-bit IV, 128-bit tag appended to the ciphertext
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_ID = /^[\w.-]+$/;
+
+/**
+ * Validated encryption settings.
+ */
+export interface ResolvedEncryption {
+	keys: Map<string, KeyObject>;
+	currentKeyId: string;
+}
+
+/**
+ * Validates the `encryption` option and imports its keys.
+ *
+ * @param options The `encryption` option passed to `openKv`
+ * @returns The settings, or null when encryption is off
+ */
+export function resolveEncryptionOptions(
+	options: KvEncryptionOptions | undefined,
+): ResolvedEncryption | null {
+	if (!options) return null;
+	const keys = new Map<string, KeyObject>();
+	for (const [id, key] of Object.entries(options.keys ?? {})) {
+		if (!KEY_ID.test(id)) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_OPTION(
+					`encryption.keys.${id}`,
+					"an ID of letters, digits, '_', '.' or '-'",
+				),
+			);
+		}
+		keys.set(id, importKey(id, key));
+	}
+	if (!keys.has(options.currentKeyId)) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION(
+				"encryption.currentKeyId",
+				"the ID of one of the keys",
+			),
+		);
+	}
+	return { keys, currentKeyId: options.currentKeyId };
+}
+
+function importKey(id: string, key: Uint8Array | CryptoKey): KeyObject {
+	const invalid = () =>
+		new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION(
+				`encryption.keys.${id}`,
+				"a 128, 192 or 256-bit key, as bytes or an extractable AES-GCM CryptoKey",
+			),
+		);
+	if (key instanceof Uint8Array) {
+		if (![16, 24, 32].includes(key.length)) throw invalid();
+		return createSecretKey(key);
+	}
+	if (
+		!(key instanceof CryptoKey) ||
+		key.algorithm.name !== "AES-GCM" ||
+		!key.extractable
+	) {
+		throw invalid();
+	}
+	return KeyObject.from(key);
+}
+
+/**
+ * Encrypts serialized value data with AES-GCM.
+ * The output is the IV followed by WebCrypto's AES-GCM ciphertext.
+ *
+ * @param data Column data from a codec, possibly compressed
+ * @param key The key
+ * @param aad Associated data the ciphertext is bound to
+ * @returns The encrypted bytes
+ */
+export function encrypt(
+	data: string | Uint8Array,
+	key: KeyObject,
+	aad: Uint8Array,
+): Uint8Array {
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv(cipherName(key), key, iv);
+	cipher.setAAD(aad);
+	return Buffer.concat([
+		iv,
+		cipher.update(data),
+		cipher.final(),
+		cipher.getAuthTag(),
+	]);
+}
+
+/**
+ * Restores data written by `encrypt`.
+ *
+ * @param data The stored bytes
+ * @param key The key the row was encrypted with
+ * @param aad The associated data used when encrypting
+ * @returns The plaintext bytes
+ */
+export function decrypt(
+	data: string | Uint8Array,
+	key: KeyObject,
+	aad: Uint8Array,
+): Uint8Array {
+	const bytes = typeof data === "string" ? Buffer.from(data) : data;
+	if (bytes.length < IV_LENGTH + TAG_LENGTH) {
+		throw new KvInvalidValueError(KvErrors.ERROR_DECRYPTION_FAILED);
+	}
+	const decipher = createDecipheriv(
+		cipherName(key),
+		key,
+		bytes.subarray(0, IV_LENGTH),
+	);
+	decipher.setAAD(aad);
+	decipher.setAuthTag(bytes.subarray(bytes.length - TAG_LENGTH));
+	try {
+		return Buffer.concat([
+			decipher.update(bytes.subarray(IV_LENGTH, bytes.length - TAG_LENGTH)),
+			decipher.final(),
+		]);
+	} catch {
+		// Wrong key, tampered data, or a ciphertext moved from another row
+		throw new KvInvalidValueError(KvErrors.ERROR_DECRYPTION_FAILED);
+	}
+}
+
+function cipherName(key: KeyObject) {
+	return `aes-${(key.symmetricKeySize ?? 32) * 8}-gcm` as "aes-256-gcm";
+}
@@ -1,12 +1,391 @@
+import { SQLiteError } from "bun:sqlite";
+import type { KvKey, KvLimits, KvListSelector, KvSchemaIssue } from "./types";
+
 /**
  * @typedef {object} KvErrors
+ * @property {string} ERROR_PATH_REQUIRED - Error for opening a store without a path.
  * @property {(type: string) => string} ERROR_UNSUPPORTED_KEY_TYPE - Error for unsupported key types.
  * @property {string} ERROR_CHECK_FAILED_KEY_EXISTS - Error for check failed due to key existing.
  * @property {string} ERROR_CHECK_FAILED_VERSION_MISMATCH - Error for check failed due to version mismatch.
+ * @property {string} ERROR_RANGE_CHECK_NOT_EMPTY - Error for a range check expecting an empty range that has keys.
+ * @property {string} ERROR_RANGE_CHECK_CHANGED - Error for a range check whose range changed after the expected version.
+ * @property {string} ERROR_RANGE_CHECK_TRIMMED - Error for a range check whose expected version is older than the retained change log.
+ * @property {string} ERROR_INVALID_ENCODED_KEY - Error for bytes that are not a valid encoded key.
+ * @property {string} ERROR_BIGINT_OUT_OF_RANGE - Error for bigint key parts outside the signed 64-bit range.
+ * @property {(type: string) => string} ERROR_MUTATION_REQUIRES_U64 - Error for sum/min/max mutations without a KvU64 operand.
+ * @property {(type: string) => string} ERROR_MUTATION_NON_U64 - Error for sum/min/max mutations on a stored value that is not a KvU64.
+ * @property {string} ERROR_INVALID_QUEUE_DELAY - Error for an enqueue delay outside 0 to 30 days.
+ * @property {string} ERROR_INVALID_BACKOFF_SCHEDULE - Error for a backoff schedule with too many or too long entries.
+ * @property {string} ERROR_QUEUE_ALREADY_LISTENING - Error for calling listenQueue twice on the same store.
+ * @property {(encoding: string) => string} ERROR_UNKNOWN_VALUE_ENCODING - Error for rows written by a codec this store does not know.
+ * @property {(name: string) => string} ERROR_RESERVED_CODEC_NAME - Error for a custom codec using a reserved name.
+ * @property {(name: string) => string} ERROR_INVALID_CODEC_NAME - Error for a custom codec name containing the compression separator.
+ * @property {(id: string) => string} ERROR_UNKNOWN_ENCRYPTION_KEY - Error for rows encrypted with a key ID this store was not given.
+ * @property {string} ERROR_DECRYPTION_FAILED - Error for encrypted rows that fail authentication.
+ * @property {string} ERROR_ENCRYPTION_DISABLED - Error for calling reencrypt on a store opened without encryption.
+ * @property {string} ERROR_INVALID_SWEEP_INTERVAL - Error for a non-positive sweeper interval.
+ * @property {string} ERROR_INVALID_SWEEP_BATCH_SIZE - Error for a sweeper batch size that is not a positive integer.
+ * @property {(since: number) => string} ERROR_CHANGES_TRIMMED - Error for resuming the change feed from a position removed by retention.
+ * @property {string} ERROR_INVALID_BACKUP_INTERVAL - Error for a non-positive scheduled backup interval.
+ * @property {string} ERROR_INVALID_BACKUP_KEEP - Error for a backup retention count that is not a positive integer.
+ * @property {(path: string) => string} ERROR_BACKUP_NOT_FOUND - Error for restoring from a file that does not exist.
+ * @property {(path: string) => string} ERROR_INVALID_BACKUP - Error for restoring from a file that is not an intact BunKV database.
+ * @property {(line: number) => string} ERROR_INVALID_IMPORT_LINE - Error for an import line that is not a valid export entry.
+ * @property {(line: number) => string} ERROR_IMPORT_KEY_EXISTS - Error for importing an existing key with mode "fail".
+ * @property {string} ERROR_INVALID_IMPORT_MODE - Error for an unknown import mode.
+ * @property {(type: string) => string} ERROR_VALUE_NOT_EXPORTABLE - Error for exporting a value the export format cannot represent.
+ * @property {(name: string) => string} ERROR_INDEX_NOT_FOUND - Error for querying an index that was not defined.
+ * @property {(name: string) => string} ERROR_INDEX_UNIQUE_VIOLATION - Error for a write that gives two entries the same value in a unique index.
+ * @property {string} ERROR_INDEX_WITH_ENCRYPTION - Error for defining an index on a store opened with encryption.
+ * @property {(name: string, expected: string) => string} ERROR_INVALID_OPTION - Error for an open option with an invalid value.
+ * @property {(path: string) => string} ERROR_DATABASE_NOT_FOUND - Error for opening a missing file read-only or with `create: false`.
+ * @property {string} ERROR_READONLY_MEMORY - Error for opening ":memory:" read-only.
+ * @property {string} ERROR_READONLY_SWEEPER - Error for enabling the sweeper on a read-only store.
+ * @property {(requested: string, actual: string) => string} ERROR_JOURNAL_MODE_UNSUPPORTED - Error for a journal mode SQLite refused to switch to.
+ * @property {(limit: string, size: number, max: number) => string} ERROR_LIMIT_EXCEEDED - Error for a key, value or commit over the configured limits.
+ * @property {(attempts: number) => string} ERROR_TRANSACTION_CONFLICT - Error for a transaction that conflicted on every attempt.
+ * @property {string} ERROR_TRANSACTION_FINISHED - Error for using a transaction handle after its callback returned.
+ * @property {(issues: string) => string} ERROR_VALIDATION_FAILED - Error for a value rejected by the schema of its key.
+ * @property {(mutation: string) => string} ERROR_ASYNC_SCHEMA_IN_COMMIT - Error for a sum/min/max result whose schema validates asynchronously.
+ * @property {string} ERROR_SUBSPACE_OTHER_STORE - Error for adding a subspace of another store to an atomic operation.
+ * @property {string} ERROR_INVALID_CURSOR - Error for a list cursor that cannot be decoded.
+ * @property {string} ERROR_CURSOR_BEFORE_ITERATION - Error for reading a list cursor before the first entry.
  */
 
 export const KvErrors = {
+	ERROR_PATH_REQUIRED: "Path is required",
 	ERROR_UNSUPPORTED_KEY_TYPE: (type: string) => `Unsupported key type: ${type}`,
 	ERROR_CHECK_FAILED_KEY_EXISTS: "Check failed: key exists",
 	ERROR_CHECK_FAILED_VERSION_MISMATCH: "Check failed: version mismatch",
+	ERROR_RANGE_CHECK_NOT_EMPTY: "Range check failed: range is not empty",
+	ERROR_RANGE_CHECK_CHANGED: "Range check failed: a key in the range changed",
+	ERROR_RANGE_CHECK_TRIMMED:
+		"Range check failed: changes since the expected version are no longer retained",
+	ERROR_INVALID_ENCODED_KEY: "Invalid encoded key",
+	ERROR_BIGINT_OUT_OF_RANGE:
+		"BigInt key part must fit in a signed 64-bit integer",
+	ERROR_MUTATION_REQUIRES_U64: (type: string) =>
+		`Mutation '${type}' requires a KvU64 value`,
+	ERROR_MUTATION_NON_U64: (type: string) =>
+		`Failed to perform '${type}' mutation on a non-U64 value in the database`,
+	ERROR_INVALID_QUEUE_DELAY: "Delay must be between 0 and 30 days",
+	ERROR_INVALID_BACKOFF_SCHEDULE:
+		"Backoff schedule must have at most 5 entries of at most 1 hour each",
+	ERROR_QUEUE_ALREADY_LISTENING: "Already listening to the queue",
+	ERROR_UNKNOWN_VALUE_ENCODING: (encoding: string) =>
+		`Unknown value encoding: ${encoding}`,
+	ERROR_RESERVED_CODEC_NAME: (name: string) =>
+		`Codec name is reserved: ${name}`,
+	ERROR_INVALID_CODEC_NAME: (name: string) =>
+		`Codec name must not contain '+': ${name}`,
+	ERROR_UNKNOWN_ENCRYPTION_KEY: (id: string) =>
+		`Value is encrypted with an unknown key: ${id}`,
+	ERROR_DECRYPTION_FAILED:
+		"Value could not be decrypted: wrong key, or the data was altered or moved",
+	ERROR_ENCRYPTION_DISABLED: "The store was opened without encryption",
+	ERROR_INVALID_SWEEP_INTERVAL: "Sweeper interval must be a positive number",
+	ERROR_INVALID_SWEEP_BATCH_SIZE:
+		"Sweeper batch size must be a positive integer",
+	ERROR_CHANGES_TRIMMED: (since: number) =>
+		`Changes after seq ${since} are no longer retained`,
+	ERROR_INVALID_BACKUP_INTERVAL: "Backup interval must be a positive number",
+	ERROR_INVALID_BACKUP_KEEP: "Backup keep count must be a positive integer",
+	ERROR_BACKUP_NOT_FOUND: (path: string) => `Backup not found: ${path}`,
+	ERROR_INVALID_BACKUP: (path: string) =>
+		`Not an intact BunKV database: ${path}`,
+	ERROR_INVALID_IMPORT_LINE: (line: number) =>
+		`Invalid export entry on line ${line}`,
+	ERROR_IMPORT_KEY_EXISTS: (line: number) =>
+		`Key on line ${line} already exists`,
+	ERROR_INVALID_IMPORT_MODE:
+		'Import mode must be "overwrite", "skip" or "fail"',
+	ERROR_VALUE_NOT_EXPORTABLE: (type: string) =>
+		`Value of type ${type} cannot be exported`,
+	ERROR_INDEX_NOT_FOUND: (name: string) => `Index not defined: ${name}`,
+	ERROR_INDEX_UNIQUE_VIOLATION: (name: string) =>
+		`Unique index '${name}' already has an entry with this value`,
+	ERROR_INDEX_WITH_ENCRYPTION:
+		"Secondary indexes are not available with encryption: indexed values would be stored in plaintext",
+	ERROR_INVALID_OPTION: (name: string, expected: string) =>
+		`Invalid option '${name}': expected ${expected}`,
+	ERROR_DATABASE_NOT_FOUND: (path: string) => `Database not found: ${path}`,
+	ERROR_READONLY_MEMORY: "An in-memory database cannot be opened read-only",
+	ERROR_READONLY_SWEEPER: "The sweeper cannot run on a read-only store",
+	ERROR_JOURNAL_MODE_UNSUPPORTED: (requested: string, actual: string) =>
+		`Could not set journal mode to ${requested}; database uses ${actual}`,
+	ERROR_LIMIT_EXCEEDED: (limit: string, size: number, max: number) =>
+		`${limit} exceeded: ${size} is over the limit of ${max}`,
+	ERROR_TRANSACTION_CONFLICT: (attempts: number) =>
+		`Transaction conflicted on all ${attempts} attempts`,
+	ERROR_TRANSACTION_FINISHED:
+		"Transaction already finished; use it only inside its callback",
+	ERROR_VALIDATION_FAILED: (issues: string) =>
+		`Value does not match the schema: ${issues}`,
+	ERROR_ASYNC_SCHEMA_IN_COMMIT: (mutation: string) =>
+		`The result of ${mutation} is validated inside the commit and needs a synchronous schema`,
+	ERROR_SUBSPACE_OTHER_STORE:
+		"An atomic operation can only span subspaces of the same store",
+	ERROR_INVALID_CURSOR: "Invalid cursor",
+	ERROR_CURSOR_BEFORE_ITERATION: "Cannot get cursor before first iteration",
 } as const;
+
+/**
+ * Stable identifiers for each kind of `KvError`, safe to match on.
+ */
+export type KvErrorCode =
+	| "INVALID_KEY"
+	| "INVALID_ARGUMENT"
+	| "INVALID_VALUE"
+	| "INVALID_STATE"
+	| "NOT_FOUND"
+	| "CHECK_FAILED"
+	| "UNIQUE_CONFLICT"
+	| "IMPORT_FAILED"
+	| "INVALID_BACKUP"
+	| "CHANGES_TRIMMED"
+	| "LIMIT_EXCEEDED"
+	| "TRANSACTION_CONFLICT"
+	| "VALIDATION_FAILED"
+	| "DATABASE_ERROR";
+
+/**
+ * Base class of every error thrown by BunKV.
+ */
+export class KvError extends Error {
+	/**
+	 * @param code Stable error code
+	 * @param message Human readable description
+	 * @param options Standard error options, e.g. the `cause`
+	 */
+	constructor(
+		readonly code: KvErrorCode,
+		message: string,
+		options?: ErrorOptions,
+	) {
+		super(message, options);
+		this.name = new.target.name;
+	}
+}
+
+/**
+ * A key, key part, encoded key or cursor that cannot be used.
+ */
+export class KvInvalidKeyError extends KvError {
+	constructor(message: string) {
+		super("INVALID_KEY", message);
+	}
+}
+
+/**
+ * An option or argument outside its allowed values.
+ */
+export class KvInvalidArgumentError extends KvError {
+	constructor(message: string) {
+		super("INVALID_ARGUMENT", message);
+	}
+}
+
+/**
+ * A stored value that cannot be read or used by the operation.
+ */
+export class KvInvalidValueError extends KvError {
+	constructor(message: string) {
+		super("INVALID_VALUE", message);
+	}
+}
+
+/**
+ * An operation that is not allowed in the current state of the store.
+ */
+export class KvInvalidStateError extends KvError {
+	constructor(message: string) {
+		super("INVALID_STATE", message);
+	}
+}
+
+/**
+ * A database file, backup or index that does not exist.
+ */
+export class KvNotFoundError extends KvError {
+	constructor(message: string) {
+		super("NOT_FOUND", message);
+	}
+}
+
+/**
+ * An atomic check that did not hold. Returned in the `error` field of a
+ * failed commit.
+ */
+export class KvCheckError extends KvError {
+	/**
+	 * @param message Why the check failed
+	 * @param check Position of the check among the operation's `check` calls,
+	 *   or among its `checkRange` calls for range checks
+	 * @param key The checked key; for range checks, the key in the range that
+	 *   changed, or the range's first bound if that is unknown
+	 * @param expected The versionstamp the check expected (null: key absent,
+	 *   or range empty)
+	 * @param actual The current versionstamp of `key` (null: key absent)
+	 * @param selector The checked range, for range checks
+	 */
+	constructor(
+		message: string,
+		readonly check: number,
+		readonly key: KvKey,
+		readonly expected: string | null,
+		readonly actual: string | null,
+		readonly selector: KvListSelector | null = null,
+	) {
+		super("CHECK_FAILED", message);
+	}
+}
+
+/**
+ * A write that would give two entries the same value in a unique index.
+ * Thrown by `set`; returned in the `error` field of a failed commit.
+ */
+export class KvUniqueConflictError extends KvError {
+	/**
+	 * @param index Name of the unique index
+	 * @param key The key whose write conflicted
+	 */
+	constructor(
+		readonly index: string,
+		readonly key: KvKey,
+	) {
+		super("UNIQUE_CONFLICT", KvErrors.ERROR_INDEX_UNIQUE_VIOLATION(index));
+	}
+}
+
+/**
+ * An import line that is malformed or conflicts with an existing key.
+ */
+export class KvImportError extends KvError {
+	/**
+	 * @param message What is wrong with the line
+	 * @param line 1-based line number in the input
+	 */
+	constructor(
+		message: string,
+		readonly line: number,
+	) {
+		super("IMPORT_FAILED", message);
+	}
+}
+
+/**
+ * A file given to `restore` that is not an intact BunKV database.
+ */
+export class KvInvalidBackupError extends KvError {
+	constructor(message: string) {
+		super("INVALID_BACKUP", message);
+	}
+}
+
+/**
+ * A change feed resumed from a position the change log no longer retains.
+ */
+export class KvChangesTrimmedError extends KvError {
+	/**
+	 * @param since The requested position
+	 */
+	constructor(readonly since: number) {
+		super("CHANGES_TRIMMED", KvErrors.ERROR_CHANGES_TRIMMED(since));
+	}
+}
+
+/**
+ * A key, value or commit larger than the configured `limits`.
+ * Thrown before anything is written.
+ */
+export class KvLimitExceededError extends KvError {
+	/**
+	 * @param limit Name of the exceeded limit, e.g. "maxValueSize"
+	 * @param size The measured size or count
+	 * @param max The configured maximum
+	 */
+	constructor(
+		readonly limit: keyof KvLimits,
+		readonly size: number,
+		readonly max: number,
+	) {
+		super("LIMIT_EXCEEDED", KvErrors.ERROR_LIMIT_EXCEEDED(limit, size, max));
+	}
+}
+
+/**
+ * A transaction whose reads kept being changed by other writers until it
+ * ran out of retries. The check that failed last is the `cause`.
+ */
+export class KvTransactionConflictError extends KvError {
+	/**
+	 * @param attempts Times the callback ran
+	 * @param cause The failed check of the last attempt
+	 */
+	constructor(
+		readonly attempts: number,
+		cause: KvCheckError,
+	) {
+		super(
+			"TRANSACTION_CONFLICT",
+			KvErrors.ERROR_TRANSACTION_CONFLICT(attempts),
+			{ cause },
+		);
+	}
+}
+
+/**
+ * A value rejected by the schema of its key. Thrown before anything is
+ * written, or by reads that validate.
+ */
+export class KvValidationError extends KvError {
+	/**
+	 * @param key The key the value was written to or read from
+	 * @param issues The problems reported by the validator
+	 */
+	constructor(
+		readonly key: KvKey,
+		readonly issues: readonly KvSchemaIssue[],
+	) {
+		super(
+			"VALIDATION_FAILED",
+			KvErrors.ERROR_VALIDATION_FAILED(issues.map(formatIssue).join("; ")),
+		);
+	}
+}
+
+function formatIssue(issue: KvSchemaIssue): string {
+	const path = (issue.path ?? [])
+		.map((segment) =>
+			String(typeof segment === "object" ? segment.key : segment),
+		)
+		.join(".");
+	return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/**
+ * A failure reported by SQLite, such as SQLITE_BUSY, SQLITE_FULL or
+ * SQLITE_READONLY. The original error is the `cause`.
+ */
+export class KvDatabaseError extends KvError {
+	/** SQLite result code name, e.g. "SQLITE_BUSY", when known */
+	readonly sqliteCode: string | null;
+
+	constructor(message: string, cause?: SQLiteError) {
+		super("DATABASE_ERROR", message, { cause });
+		this.sqliteCode = cause?.code ?? null;
+	}
+}
+
+/**
+ * Wraps SQLite errors in a `KvDatabaseError`; other errors pass through.
+ *
+ * @param error Anything thrown by an operation
+ * @returns The error to rethrow
+ */
+export function toKvError(error: unknown): unknown {
+	if (error instanceof SQLiteError) {
+		return new KvDatabaseError(error.message, error);
+	}
+	return error;
+}
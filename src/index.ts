@@ -1,13 +1,50 @@
 import { BunKV } from "./kv";
+import type { KvOptions, KvSchemaDefinition } from "./types";
+import { KvU64 } from "./u64";
 /**
  * Opens a persistent or in-memory key-value store.
  *
  * @param path The path to the SQLite database file. Defaults to ':memory:' for in-memory storage.
- * @returns A Promise that resolves to a BunKV instance.
+ * @param options Store options, such as the value codec.
+ * @returns A Promise that resolves to a BunKV instance, or rejects if the
+ *   options are invalid or the database cannot be opened.
+ * @typeParam S The value schemas, from which value types are inferred
  */
-export function openKv(path: string = ":memory:"): Promise<BunKV> {
-	// Deno openKv is async
-	return Promise.resolve(new BunKV(path));
+export async function openKv<
+	const S extends readonly KvSchemaDefinition[] = readonly KvSchemaDefinition[],
+>(path: string = ":memory:", options?: KvOptions<S>): Promise<BunKV<S>> {
+	// Deno openKv is async; invalid options reject instead of throwing
+	return new BunKV(path, options);
 }
 
-export { BunKV };
+export { BunKV, KvU64 };
+export {
+	KvChangesTrimmedError,
+	KvCheckError,
+	KvDatabaseError,
+	KvError,
+	type KvErrorCode,
+	KvImportError,
+	KvInvalidArgumentError,
+	KvInvalidBackupError,
+	KvInvalidKeyError,
+	KvInvalidStateError,
+	KvInvalidValueError,
+	KvLimitExceededError,
+	KvNotFoundError,
+	KvTransactionConflictError,
+	KvUniqueConflictError,
+	KvValidationError,
+} from "./error";
+export { DENO_LIMITS } from "./limits";
+export {
+	type KvAtomicOperation,
+	KvSubspace,
+	type KvSubspaceAtomicOperation,
+} from "./subspace";
+export type * from "./types";
+export {
+	jsonCodec,
+	type KvValueCodec,
+	structuredCloneCodec,
+} from "./value";
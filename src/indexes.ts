@@ -0,0 +1,42 @@
+import { encodeKey } from "./encoding";
+import type { KvIndexOptions, KvKey } from "./types";
+
+/**
+ * A secondary index registered with `defineIndex`.
+ */
+export interface IndexDefinition {
+	name: string;
+	/** Whether an encoded primary key falls under the index prefix */
+	covers: (pk: Uint8Array) => boolean;
+	on: KvIndexOptions["on"];
+	unique: boolean;
+}
+
+/**
+ * Normalizes an index value to a key, so single parts and compound values
+ * share one sortable encoding.
+ *
+ * @param value A value returned by `on`, or passed to `lookup`
+ * @returns The encoded index value
+ */
+export function encodeIndexValue(value: KvKey | KvKey[number]): Uint8Array {
+	return encodeKey(Array.isArray(value) ? value : [value]);
+}
+
+/**
+ * Computes the index value of an entry.
+ *
+ * @param index The index definition
+ * @param key The entry key
+ * @param value The entry value
+ * @returns The encoded index value, or null if the entry is not indexed
+ */
+export function indexValueOf(
+	index: IndexDefinition,
+	key: KvKey,
+	value: unknown,
+): Uint8Array | null {
+	const result = index.on(value, key);
+	if (result === null || result === undefined) return null;
+	return encodeIndexValue(result);
+}
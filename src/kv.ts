@@ -1,66 +1,374 @@
-import { Database } from "bun:sqlite";
+import { type Database, SQLiteError } from "bun:sqlite";
 import { EventEmitter } from "node:events";
 import fs from "node:fs";
-import { type Span, type Tracer, trace } from "@opentelemetry/api";
-import { ulid } from "ulid";
-import { encodeKey } from "./encoding";
-import { KvErrors } from "./error";
+import path from "node:path";
+import type { Span } from "@opentelemetry/api";
+import {
+	backupPath,
+	pruneBackups,
+	resolveBackupOptions,
+	restoreDatabase,
+} from "./backup";
+import { resolveCompressionOptions } from "./compression";
+import {
+	openDatabase,
+	ReaderPool,
+	resolveConnectionOptions,
+} from "./connection";
+import {
+	compareBytes,
+	decodeCursor,
+	decodeKey,
+	encodeCursor,
+	encodeKey,
+} from "./encoding";
+import { resolveEncryptionOptions } from "./encryption";
+import {
+	KvChangesTrimmedError,
+	KvCheckError,
+	KvErrors,
+	KvImportError,
+	KvInvalidArgumentError,
+	KvInvalidStateError,
+	KvInvalidValueError,
+	KvNotFoundError,
+	KvTransactionConflictError,
+	KvUniqueConflictError,
+	toKvError,
+} from "./error";
+import {
+	encodeIndexValue,
+	type IndexDefinition,
+	indexValueOf,
+} from "./indexes";
+import { checkLimit, resolveLimits } from "./limits";
+import {
+	DEFAULT_BACKOFF_SCHEDULE,
+	deserializeKeys,
+	QUEUE_LEASE_MS,
+	QUEUE_MESSAGE_AAD,
+	QUEUE_POLL_INTERVAL_MS,
+	type QueueRow,
+	serializeKeys,
+	validateEnqueueOptions,
+} from "./queue";
+import {
+	acceptsOwnOutput,
+	type ResolvedSchema,
+	resolveSchemaOptions,
+	schemaFor,
+	validateValue,
+	validateValueSync,
+} from "./schema";
 import { SQL } from "./sql";
+import { KvSubspace } from "./subspace";
+import { failSpan, keyAttribute, Telemetry } from "./telemetry";
+import { resolveTransactionOptions, retryDelay } from "./transaction";
+import {
+	DEFAULT_IMPORT_BATCH_SIZE,
+	decodeExportLine,
+	EXPORT_BATCH_SIZE,
+	type ExportRow,
+	encodeExportLine,
+	type ImportEntry,
+	readLines,
+} from "./transfer";
 import type {
+	KvBackgroundJob,
+	KvBackupOptions,
+	KvChangeEvent,
+	KvChangesOptions,
 	KvCommitResult,
+	KvConsistencyLevel,
+	KvEnqueueOptions,
 	KvEntry,
 	KvEntryMaybe,
+	KvGetOptions,
+	KvImportOptions,
+	KvImportResult,
+	KvIndexListOptions,
+	KvIndexOptions,
+	KvInferValue,
 	KvKey,
+	KvKeyPart,
+	KvLimits,
+	KvListIterator,
 	KvListOptions,
 	KvListSelector,
+	KvMutation,
+	KvOptions,
+	KvReencryptOptions,
+	KvResolveValue,
+	KvSchemaDefinition,
+	KvSchemaEntries,
+	KvSchemaInput,
+	KvSchemaValue,
+	KvSchemaValueUnder,
 	KvSetOptions,
+	KvSweeperOptions,
+	KvTransaction,
+	KvTransactionOptions,
+	KvWatchEvent,
 } from "./types";
+import { KvU64, maxU64, minU64, sumU64 } from "./u64";
+import { type EncodedValue, type StoredValue, ValueSerializer } from "./value";
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+const DEFAULT_CHANGE_POLL_INTERVAL_MS = 100;
+const DEFAULT_CHANGE_LOG_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** Trim the change log once every this many logged writes, across connections. */
+const CHANGE_LOG_TRIM_EVERY = 1000;
+/** Change log rows read per query by `changes()`. */
+const CHANGE_FEED_BATCH_SIZE = 500;
+/** `meta` key holding the highest change log seq removed by retention. */
+const TRIMMED_SEQ_META_KEY = "changes_trimmed_seq";
+/** `meta` key holding the highest versionstamp removed by retention, as a number. */
+const TRIMMED_VERSION_META_KEY = "changes_trimmed_version";
+/** `meta` key holding the last allocated versionstamp, as a number. */
+const VERSIONSTAMP_META_KEY = "versionstamp";
+/** `meta` key set once every change log row has a versionstamp. */
+const CHANGE_VERSIONS_META_KEY = "change_versions_migrated";
+/** `meta` key holding the change log seq at the last retention run. */
+const TRIM_CHECKED_SEQ_META_KEY = "changes_trim_checked_seq";
+/** `meta` key set once legacy versions have been renumbered. */
+const LEGACY_VERSIONS_META_KEY = "legacy_versions_migrated";
+/** `meta` key prefix marking a schema prefix whose validator transforms values. */
+const SCHEMA_TRANSFORMS_META_KEY = "schema_transforms_";
+const DEFAULT_SWEEP_BATCH_SIZE = 1000;
+const DEFAULT_REENCRYPT_BATCH_SIZE = 1000;
+
+/** Keys per `IN (...)` lookup, well below SQLite's bound parameter limit. */
+const GET_MANY_CHUNK_SIZE = 500;
+
+/**
+ * Validates sweeper options and fills in the defaults.
+ *
+ * @param options The `sweeper` option passed to `openKv`
+ * @returns The options with every field set
+ */
+function resolveSweeperOptions(
+	options: KvSweeperOptions,
+): Required<KvSweeperOptions> {
+	const interval = options.interval ?? DEFAULT_SWEEP_INTERVAL_MS;
+	const batchSize = options.batchSize ?? DEFAULT_SWEEP_BATCH_SIZE;
+	if (!Number.isFinite(interval) || interval <= 0) {
+		throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_SWEEP_INTERVAL);
+	}
+	if (!Number.isInteger(batchSize) || batchSize < 1) {
+		throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_SWEEP_BATCH_SIZE);
+	}
+	return { interval, batchSize };
+}
+
+/**
+ * Row shape returned by point lookups.
+ */
+interface GetRow {
+	pk: Uint8Array;
+	value: StoredValue;
+	value_encoding: string | null;
+	version: string;
+	date_expired: number | null;
+}
+
+/**
+ * A committed change to a single key, as broadcast to watchers.
+ * Deletes made by an atomic commit carry the commit's version, so range
+ * checks can tell them apart from later changes; other deletes have none.
+ */
+interface KvChange {
+	key: KvKey;
+	pk: Uint8Array;
+	type: "set" | "delete" | "expire";
+	version: string | null;
+}
+
+/**
+ * Row shape of the `changes` table.
+ */
+interface ChangeRow {
+	seq: number;
+	pk: Uint8Array;
+	type: KvChange["type"];
+	version: string | null;
+	origin: string;
+}
+
+/**
+ * An import entry with its value encoded for this store.
+ */
+interface ImportBatchEntry {
+	entry: ImportEntry;
+	value: EncodedValue;
+	lineNumber: number;
+}
+
+/**
+ * Identity of an encoded key, usable as a Map/Set member.
+ */
+function keyId(pk: Uint8Array): string {
+	return Buffer.from(pk).toString("hex");
+}
+
+/**
+ * Formats the versionstamp counter: 20 hex characters, comparable as strings.
+ */
+function formatVersionstamp(value: number): string {
+	return value.toString(16).padStart(20, "0");
+}
 
 /**
  * BunKV Store backed by SQLite.
  * Compatible with Deno KV API.
+ * @typeParam S The value schemas, from which value types are inferred
  */
-export class BunKV {
+export class BunKV<
+	S extends readonly KvSchemaDefinition[] = readonly KvSchemaDefinition[],
+> {
 	private db: Database;
 	private events = new EventEmitter();
-	private tracer: Tracer | null = null;
+	private telemetry: Telemetry;
+	private values: ValueSerializer;
+	private closed = false;
+	private sweepTimer: ReturnType<typeof setInterval> | null = null;
+	private backupTimer: ReturnType<typeof setInterval> | null = null;
+	private sweepBatchSize = DEFAULT_SWEEP_BATCH_SIZE;
+	private stopQueue: (() => void) | null = null;
+	private isMemory: boolean;
+	private readonly: boolean;
+	private readers: ReaderPool | null = null;
+	private limits: Required<KvLimits>;
+	// Tags change log rows so pollers can skip writes they already broadcast
+	private origin = crypto.randomUUID();
+	private changeLogMaxAge: number;
+	private changeLogMaxCount: number | null;
+	private changePollInterval: number;
+	private changePoller: ReturnType<typeof setInterval> | null = null;
+	private dataVersion = 0;
+	private changeSeq = 0;
+	private indexes = new Map<string, IndexDefinition>();
+	private schemas: ResolvedSchema[];
+	private transformingSchemas = new Set<ResolvedSchema>();
+	private onError: (error: unknown, job: KvBackgroundJob) => void;
 
 	/**
 	 * Open a new KV Store instance.
 	 * @param path File path to the SQLite database, or ":memory:"
+	 * @param options Store options (connection settings, value codec, background jobs)
 	 */
-	constructor(path: string) {
+	constructor(path: string, options: KvOptions<S> = {}) {
 		if (!path) {
-			throw new Error("Path is required");
-		}
-		if (path === ":memory:") {
-			this.db = new Database(":memory:");
-		} else {
-			// make sure the directory exists or else create it
-			const dir = path.substring(0, path.lastIndexOf("/"));
-			if (dir) {
-				fs.mkdirSync(dir, { recursive: true });
-			}
-			this.db = new Database(path);
+			throw new KvInvalidArgumentError(KvErrors.ERROR_PATH_REQUIRED);
+		}
+		this.isMemory = path === ":memory:";
+		const connection = resolveConnectionOptions(options);
+		this.limits = resolveLimits(options.limits);
+		this.schemas = resolveSchemaOptions(options.schemas);
+		this.onError =
+			options.onError ??
+			((error, job) => console.error(`BunKV ${job} failed:`, error));
+		this.changePollInterval =
+			options.changePollInterval ?? DEFAULT_CHANGE_POLL_INTERVAL_MS;
+		if (
+			!Number.isFinite(this.changePollInterval) ||
+			this.changePollInterval <= 0
+		) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_OPTION(
+					"changePollInterval",
+					"a positive number",
+				),
+			);
+		}
+		this.changeLogMaxAge =
+			options.changeLog?.maxAge ?? DEFAULT_CHANGE_LOG_MAX_AGE_MS;
+		this.changeLogMaxCount = options.changeLog?.maxCount ?? null;
+		// Infinity keeps changes forever
+		if (!(this.changeLogMaxAge > 0)) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_OPTION("changeLog.maxAge", "a positive number"),
+			);
+		}
+		if (
+			this.changeLogMaxCount !== null &&
+			(!Number.isInteger(this.changeLogMaxCount) || this.changeLogMaxCount < 1)
+		) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_OPTION(
+					"changeLog.maxCount",
+					"a positive integer",
+				),
+			);
+		}
+		this.readonly = connection.readonly;
+		if (this.readonly && options.sweeper) {
+			throw new KvInvalidArgumentError(KvErrors.ERROR_READONLY_SWEEPER);
+		}
+		// Every option is validated before the database is opened, so a bad
+		// one cannot leave a connection behind
+		const sweeper = options.sweeper && resolveSweeperOptions(options.sweeper);
+		const backups = options.backups && resolveBackupOptions(options.backups);
+		this.values = new ValueSerializer(
+			options.codec,
+			resolveCompressionOptions(options.compression),
+			resolveEncryptionOptions(options.encryption),
+		);
+		this.db = openDatabase(path, connection);
+		// Readers only get their own snapshots in WAL mode
+		if (
+			!this.isMemory &&
+			connection.readers > 0 &&
+			(connection.readonly || connection.journalMode === "wal")
+		) {
+			this.readers = new ReaderPool(path, connection, connection.readers);
 		}
 		this.events.setMaxListeners(0); // Unlimited listeners
-		if (process.env.OTEL_BUN === "true") {
-			this.tracer = trace.getTracer("bunkv");
+		this.telemetry = new Telemetry(
+			options.telemetry,
+			this.isMemory ? null : path,
+		);
+		// A read-only store uses the schema as the writer left it
+		if (!this.readonly) this.init();
+		if (sweeper) {
+			this.startSweeper(sweeper);
+		}
+		if (backups) {
+			this.startBackups(backups);
 		}
-		this.init();
+	}
+
+	/**
+	 * Restore a database file from a backup.
+	 * Verifies the backup first; the destination is replaced only if the copy
+	 * succeeds. Close every store using `destPath` before restoring.
+	 * @param srcPath Backup file, e.g. one written by `backup()`
+	 * @param destPath Database file to replace
+	 */
+	static async restore(srcPath: string, destPath: string): Promise<void> {
+		restoreDatabase(srcPath, destPath);
 	}
 
 	private init() {
 		this.db.run(SQL.CREATE_TABLE);
+		this.db.run(SQL.CREATE_META_TABLE);
+		this.db.run(SQL.CREATE_QUEUE_TABLE);
+		this.db.run(SQL.CREATE_QUEUE_INDEX);
+		this.db.run(SQL.CREATE_CHANGES_TABLE);
+		this.db.run(SQL.CREATE_CHANGES_INDEX);
+		this.db.run(SQL.CREATE_CHANGES_VERSION_INDEX);
+		this.db.run(SQL.CREATE_INDEX_TABLE);
+		this.db.run(SQL.CREATE_INDEX_PK_INDEX);
 
 		const runMigration = (sql: string) => {
 			try {
 				this.db.run(sql);
 			} catch (error: unknown) {
-				// Ignore if column already exists
+				// Ignore if column already exists (or was already dropped)
 				if (
 					error instanceof Error &&
-					error.message.includes("duplicate column name")
+					(error.message.includes("duplicate column name") ||
+						error.message.includes("no such column"))
 				) {
 					return;
 				}
@@ -72,80 +380,154 @@ export class BunKV {
 		runMigration(SQL.MIGRATE_ADD_DATE_CREATED);
 		runMigration(SQL.MIGRATE_ADD_DATE_UPDATED);
 		runMigration(SQL.MIGRATE_ADD_DATE_EXPIRED);
+		runMigration(SQL.MIGRATE_DROP_KEY_JSON);
+		runMigration(SQL.MIGRATE_ADD_VALUE_ENCODING);
+		runMigration(SQL.MIGRATE_RENAME_VALUE_JSON);
+		runMigration(SQL.MIGRATE_RENAME_QUEUE_VALUE_JSON);
+		// Needs the date_expired column, so created after the migrations
+		this.db.run(SQL.CREATE_EXPIRY_INDEX);
+		this.migrateLegacyVersions();
+		this.migrateChangeVersions();
+		// Rows may have aged out while no connection was writing
+		this.trimChangeLog(Date.now());
+		// Index values are plaintext; drop any left from before encryption
+		if (this.values.encryptionLayer) this.db.run(SQL.DELETE_ALL_INDEXES);
+	}
+
+	/**
+	 * Renumbers versions written before versionstamps (e.g. ULIDs) with
+	 * versionstamps, oldest first. Left as they are, they sort after every
+	 * new versionstamp, so range checks would take new writes for old ones.
+	 * Runs once per database file.
+	 */
+	private migrateLegacyVersions() {
+		if (this.readMeta(LEGACY_VERSIONS_META_KEY)) return;
+		const migrate = this.db.transaction(() => {
+			if (this.readMeta(LEGACY_VERSIONS_META_KEY)) return;
+			const rows = this.db.query(SQL.SELECT_LEGACY_VERSIONS).all() as {
+				pk: Uint8Array;
+			}[];
+			const update = this.db.query(SQL.UPDATE_VERSION);
+			for (const row of rows) {
+				update.run(this.nextVersionstamp(), row.pk);
+			}
+			this.db.run(SQL.UPSERT_META, [LEGACY_VERSIONS_META_KEY, 1]);
+		});
+		// Another connection may be migrating the same file
+		migrate.immediate();
+	}
+
+	/**
+	 * Stamps change log rows logged without a versionstamp, and records the
+	 * highest versionstamp already trimmed, so range checks can compare
+	 * versions. The rows get the latest versionstamp: a range check against
+	 * an older version fails, as it would have before.
+	 */
+	private migrateChangeVersions() {
+		if (this.readMeta(CHANGE_VERSIONS_META_KEY)) return;
+		const migrate = this.db.transaction(() => {
+			if (this.readMeta(CHANGE_VERSIONS_META_KEY)) return;
+			const latest = this.readMeta(VERSIONSTAMP_META_KEY);
+			this.db.run(SQL.STAMP_UNVERSIONED_CHANGES, [formatVersionstamp(latest)]);
+			if (this.readMeta(TRIMMED_SEQ_META_KEY)) {
+				// Trimmed rows are older than every retained one
+				const oldest = this.db.query(SQL.SELECT_MIN_CHANGE_VERSION).get() as {
+					version: string | null;
+				};
+				this.db.run(SQL.UPSERT_META, [
+					TRIMMED_VERSION_META_KEY,
+					oldest.version ? Number.parseInt(oldest.version, 16) : latest,
+				]);
+			}
+			this.db.run(SQL.UPSERT_META, [CHANGE_VERSIONS_META_KEY, 1]);
+		});
+		// Another connection may be migrating the same file
+		migrate.immediate();
 	}
 
 	/**
 	 * Retrieve a value from the store.
 	 * @param key The key to retrieve
+	 * @param options Read options (consistency)
 	 * @returns An object containing the key, value, and versionstamp. Value is null if not found.
+	 * @typeParam T The value type; inferred from the key's schema if omitted
 	 */
-	async get<T = unknown>(key: KvKey): Promise<KvEntryMaybe<T>> {
+	async get<T = KvInferValue, const K extends KvKey = KvKey>(
+		key: K,
+		options?: KvGetOptions,
+	): Promise<KvEntryMaybe<KvResolveValue<T, KvSchemaValue<S, K>>>> {
 		return this.trace("get", async (span) => {
-			span?.setAttribute("db.key", JSON.stringify(key));
-			const pk = encodeKey(key);
-			const now = Date.now();
-			// Try selecting 'version', fallback to 'versionstamp' if that column is stuck in old schemas (not handling full migration here)
-			// We expect 'version' to be the truth.
-			const stmt = this.db.prepare(SQL.SELECT_GET);
-			const result = stmt.get(pk) as {
-				value_json: string;
-				version: string;
-				date_expired: number | null;
-			} | null;
-
-			if (!result) {
-				return { key, value: null, version: null };
-			}
-
-			if (result.date_expired !== null && result.date_expired < now) {
-				// Lazily delete expired? Or just return null.
-				// Deno KV sometimes lazily deletes. For now just return null.
-				this.delete(key); // Lazy cleanup
-				return { key, value: null, version: null };
-			}
+			span?.setAttribute("db.key", keyAttribute(key));
+			const entries = this.readEntries<KvResolveValue<T, KvSchemaValue<S, K>>>(
+				[key],
+				options?.consistency,
+			);
+			return (await this.validateReads(entries))[0] as KvEntryMaybe<
+				KvResolveValue<T, KvSchemaValue<S, K>>
+			>;
+		});
+	}
 
-			return {
-				key,
-				value: JSON.parse(result.value_json),
-				version: result.version,
-			};
+	/**
+	 * Retrieve multiple values from the store.
+	 * All keys are read from the same consistent snapshot.
+	 * @param keys The keys to retrieve
+	 * @param options Read options (consistency)
+	 * @returns One entry per key, in the same order as `keys`. Value is null if not found.
+	 * @typeParam T The value type; inferred from each key's schema if omitted
+	 */
+	async getMany<T = KvInferValue, const K extends KvKey[] = KvKey[]>(
+		keys: K,
+		options?: KvGetOptions,
+	): Promise<KvSchemaEntries<T, S, K>> {
+		return this.trace("get_many", async (span) => {
+			span?.setAttribute("db.key_count", keys.length);
+			const entries = this.readEntries(keys, options?.consistency);
+			return (await this.validateReads(entries)) as KvSchemaEntries<T, S, K>;
 		});
 	}
 
 	/**
 	 * Set a value in the store.
 	 * @param key The key to set
-	 * @param value The value to store
+	 * @param value The value to store; validated if the key has a schema
 	 * @param options Optional settings like expiration (TTL)
 	 */
-	async set(
-		key: KvKey,
-		value: unknown,
+	async set<const K extends KvKey>(
+		key: K,
+		value: KvSchemaInput<S, K>,
 		options?: KvSetOptions,
 	): Promise<KvCommitResult> {
 		return this.trace("set", async (span) => {
-			span?.setAttribute("db.key", JSON.stringify(key));
+			span?.setAttribute("db.key", keyAttribute(key));
 			const pk = encodeKey(key);
-			const keyJson = JSON.stringify(key);
-			const valueJson = JSON.stringify(value);
-			const version = ulid();
+			const { data, encoding, size } = this.values.encode(
+				await this.validateWrite(key, pk, value),
+				pk,
+			);
+			this.checkWriteLimits({ keys: [pk], valueSizes: [size] });
 
 			const now = Date.now();
 			const dateExpired = options?.expireIn ? now + options.expireIn : null;
 
-			const stmt = this.db.prepare(SQL.UPSERT);
-
-			stmt.run({
-				$pk: pk,
-				$key_json: keyJson,
-				$value_json: valueJson,
-				$version: version,
-				$now: now,
-				$date_expired: dateExpired,
+			const write = this.db.transaction(() => {
+				const version = this.nextVersionstamp();
+				this.db.prepare(SQL.UPSERT).run({
+					$pk: pk,
+					$value: data,
+					$value_encoding: encoding,
+					$version: version,
+					$now: now,
+					$date_expired: dateExpired,
+				});
+				const change: KvChange = { key, pk, type: "set", version };
+				this.logChanges([change]);
+				return change;
 			});
+			const change = write();
 
-			this.events.emit("change", [key]);
-			return { ok: true, version };
+			this.publishChanges([change]);
+			return { ok: true, version: change.version as string };
 		});
 	}
 
@@ -155,22 +537,32 @@ export class BunKV {
 	 */
 	async delete(key: KvKey): Promise<void> {
 		return this.trace("delete", async (span) => {
-			span?.setAttribute("db.key", JSON.stringify(key));
+			span?.setAttribute("db.key", keyAttribute(key));
 			const pk = encodeKey(key);
-			this.db.run(SQL.DELETE, [pk]);
-			this.events.emit("change", [key]);
+			this.checkWriteLimits({ keys: [pk], valueSizes: [] });
+			const change: KvChange = { key, pk, type: "delete", version: null };
+			const write = this.db.transaction(() => {
+				this.db.run(SQL.DELETE, [pk]);
+				this.logChanges([change]);
+			});
+			write();
+			this.publishChanges([change]);
 		});
 	}
 
 	/**
 	 * List keys and values in the store.
 	 * @param selector Selection criteria (prefix, range)
-	 * @param options List options (limit, reverse)
+	 * @param options List options (limit, reverse, cursor, consistency)
+	 * @returns An async iterator over the entries. Its `cursor` property can be
+	 * passed back as `options.cursor` to resume after the last yielded entry.
+	 * @typeParam T The value type; inferred from the schemas under the prefix if omitted
 	 */
-	list<T = unknown>(
-		selector: KvListSelector,
+	list<T = KvInferValue, const P extends KvKey = KvKey>(
+		selector: KvListSelector & { prefix?: P },
 		options: KvListOptions = {},
-	): AsyncIterableIterator<KvEntry<T>> {
+	): KvListIterator<KvResolveValue<T, KvSchemaValueUnder<S, P>>> {
+		type V = KvResolveValue<T, KvSchemaValueUnder<S, P>>;
 		const now = Date.now();
 		// We clean up expired items during iteration or filter them out in SQL?
 		// Filtering in SQL is better for limit count.
@@ -182,7 +574,8 @@ export class BunKV {
 		];
 
 		// Constraints
-		if (selector.prefix) {
+		// An empty prefix selects every key
+		if (selector.prefix?.length) {
 			const start = encodeKey(selector.prefix);
 			const end = this.incrementBytes(start);
 			conditions.push("pk >= ?");
@@ -210,6 +603,13 @@ export class BunKV {
 			params.push(endBytes);
 		}
 
+		// Resume strictly after the last entry yielded by a previous page.
+		if (options.cursor) {
+			const cursorBytes = decodeCursor(options.cursor);
+			conditions.push(options.reverse ? "pk < ?" : "pk > ?");
+			params.push(cursorBytes);
+		}
+
 		if (conditions.length > 0) {
 			sql += ` WHERE ${conditions.join(" AND ")}`;
 		}
@@ -221,246 +621,1993 @@ export class BunKV {
 			params.push(options.limit);
 		}
 
-		const stmt = this.db.prepare(sql);
+		const stmt = this.connection(options.consistency).prepare(sql);
 		// bun-sqlite .all() returns everything. iterator() is better.
 		// But bun:sqlite might not support async iterator natively on stmt?
 		// It has `iterate()`.
 		const iterator = stmt.iterate(...params);
 
+		const values = this.values;
+		const validateRead = this.validateRead.bind(this);
+		const telemetry = this.telemetry;
+		// `undefined` until the first entry is pulled, "" once exhausted.
+		let cursor: string | undefined;
+
 		// Create async generator
-		async function* gen() {
-			for (const row of iterator) {
-				const r = row as {
-					key_json: string;
-					value_json: string;
-					version: string;
-					date_expired: number | null;
-				};
-				// Double check expiry (though SQL SHOULD handle it)
-				if (r.date_expired !== null && r.date_expired < now) {
-					// Should not happen with SQL filter, but race condition possible?
-					// Also lazy delete?
-					// Technically with SQL filter we just don't see it.
-					continue;
-				}
+		async function* gen(): AsyncGenerator<KvEntry<V>> {
+			const start = performance.now();
+			const span = telemetry.startSpan("list", {
+				...(selector.prefix && { "db.prefix": keyAttribute(selector.prefix) }),
+				...(selector.start && { "db.start": keyAttribute(selector.start) }),
+				...(selector.end && { "db.end": keyAttribute(selector.end) }),
+			});
+			let count = 0;
+			let scanned = 0;
+			let failure: unknown;
+			try {
+				for (const row of iterator) {
+					scanned++;
+					const r = row as {
+						pk: Uint8Array;
+						value: StoredValue;
+						value_encoding: string | null;
+						version: string;
+						date_expired: number | null;
+					};
+					// Double check expiry (though SQL SHOULD handle it)
+					if (r.date_expired !== null && r.date_expired < now) {
+						// Should not happen with SQL filter, but race condition possible?
+						// Also lazy delete?
+						// Technically with SQL filter we just don't see it.
+						continue;
+					}
 
-				yield {
-					key: JSON.parse(r.key_json) as KvKey,
-					value: JSON.parse(r.value_json) as T,
-					version: r.version,
-				};
+					cursor = encodeCursor(r.pk);
+					count++;
+					const key = decodeKey(r.pk);
+					let value = values.decode(r.value, r.value_encoding, r.pk);
+					value = await validateRead(key, r.pk, value);
+					yield { key, value: value as V, version: r.version };
+				}
+				// Deno KV semantics: an exhausted listing has an empty cursor, but
+				// one cut short by `limit` keeps pointing at the last entry.
+				if (!options.limit || count < options.limit) {
+					cursor = "";
+				}
+			} catch (e: unknown) {
+				failure = e;
+				if (span) failSpan(span, e);
+				throw e;
+			} finally {
+				// Also runs when the caller stops iterating early
+				span?.setAttribute("db.rows_scanned", scanned);
+				span?.end();
+				telemetry.recordListRows(scanned);
+				telemetry.recordOperation("list", start, failure);
 			}
 		}
 
-		return gen();
+		const result = gen();
+		Object.defineProperty(result, "cursor", {
+			get() {
+				if (cursor === undefined) {
+					throw new KvInvalidStateError(KvErrors.ERROR_CURSOR_BEFORE_ITERATION);
+				}
+				return cursor;
+			},
+		});
+		return result as typeof result & { readonly cursor: string };
 	}
 
 	/**
 	 * Watch for changes on specific keys.
 	 * @param keys List of keys to watch
 	 * @returns A ReadableStream that emits the new values when changes occur
+	 * @typeParam T The value type; inferred from each key's schema if omitted
 	 */
-	watch<T = unknown>(keys: KvKey[]): ReadableStream<KvEntryMaybe<T>[]> {
+	watch<T = KvInferValue, const K extends KvKey[] = KvKey[]>(
+		keys: K,
+	): ReadableStream<KvSchemaEntries<T, S, K>> {
 		const self = this;
-		let listener: ((changedKeys: KvKey[]) => Promise<void>) | undefined;
+		let listener: ((changes: KvChange[]) => void) | undefined;
+		let closeWatcher: (() => void) | undefined;
+		let done = false;
+		const watched = new Set(keys.map((k) => keyId(encodeKey(k))));
 
 		return new ReadableStream({
-			async start(controller) {
+			start(controller) {
+				closeWatcher = self.telemetry.watcherOpened("keys");
+				// Read validation is async; chain deliveries to keep them in order
+				let delivered = Promise.resolve();
+				const deliver = () => {
+					delivered = delivered
+						.then(() =>
+							self.traceDelivery("watch.deliver", keys.length, async () => {
+								if (done) return;
+								const entries = await self.validateReads(
+									self.readEntries(keys),
+								);
+								if (!done) {
+									controller.enqueue(entries as KvSchemaEntries<T, S, K>);
+								}
+							}),
+						)
+						.catch((e: unknown) => {
+							if (done) return;
+							done = true;
+							controller.error(toKvError(e));
+						});
+				};
 				// Emit initial values
-				const initial: KvEntryMaybe<T>[] = [];
-				for (const key of keys) {
-					initial.push(await self.get(key));
-				}
-				controller.enqueue(initial);
-
-				listener = async (changedKeys: KvKey[]) => {
-					// Check if any of the changed keys match our watched keys
-					// Simple JSON.stringify comparison for now.
-					let relevant = false;
-					const watchedSet = new Set(keys.map((k) => JSON.stringify(k)));
-
-					for (const k of changedKeys) {
-						if (watchedSet.has(JSON.stringify(k))) {
-							relevant = true;
-							break;
-						}
-					}
+				deliver();
 
-					if (relevant) {
-						const updates: KvEntryMaybe<T>[] = [];
-						for (const key of keys) {
-							updates.push(await self.get(key));
-						}
-						controller.enqueue(updates);
-					}
+				listener = (changes: KvChange[]) => {
+					// Only re-read when one of the watched keys changed
+					const relevant = changes.some((c) => watched.has(keyId(c.pk)));
+					if (relevant) deliver();
 				};
 
 				self.events.on("change", listener);
+				self.startChangePoller();
 			},
 			cancel() {
+				done = true;
 				if (listener) {
 					self.events.off("change", listener);
 				}
+				closeWatcher?.();
+				self.stopChangePollerIfIdle();
 			},
 		});
 	}
 
 	/**
-	 * Close the database connection.
+	 * Watch for changes to every key matched by a selector.
+	 * Emits one event per changed key; no initial snapshot is sent, so pair it
+	 * with `list()` to render the current state first. A `set` whose value was
+	 * already overwritten when the event is delivered is skipped, since the
+	 * later write produces its own event.
+	 * @param selector Selection criteria (prefix, range), as for `list`
+	 * @returns A ReadableStream of per-key change events
 	 */
-	async close() {
-		this.db.close();
-		this.events.removeAllListeners();
+	watchPrefix<T = unknown>(
+		selector: KvListSelector,
+	): ReadableStream<KvWatchEvent<T>> {
+		const self = this;
+		let listener: ((changes: KvChange[]) => void) | undefined;
+		let closeWatcher: (() => void) | undefined;
+		let done = false;
+		const matches = this.selectorMatcher(selector);
+
+		return new ReadableStream({
+			start(controller) {
+				closeWatcher = self.telemetry.watcherOpened("prefix");
+				// Read validation is async; chain deliveries to keep them in order
+				let delivered = Promise.resolve();
+				const deliver = async (matching: KvChange[]) => {
+					const sets = matching.filter((c) => c.type === "set");
+					const current = await self.validateReads(
+						self.readEntries<T>(sets.map((c) => c.key)),
+					);
+					if (done) return;
+					let i = 0;
+					for (const change of matching) {
+						if (change.type !== "set") {
+							controller.enqueue({
+								type: change.type,
+								key: change.key,
+								value: null,
+								version: null,
+							});
+							continue;
+						}
+						const entry = current[i++];
+						if (entry?.version && entry.version === change.version) {
+							controller.enqueue({
+								type: "set",
+								key: change.key,
+								value: entry.value,
+								version: entry.version,
+							});
+						}
+					}
+				};
+
+				listener = (changes: KvChange[]) => {
+					// Keep only the last change per key within this batch
+					const latest = new Map<string, KvChange>();
+					for (const change of changes) {
+						if (!matches(change.pk)) continue;
+						const id = keyId(change.pk);
+						latest.delete(id);
+						latest.set(id, change);
+					}
+					if (latest.size === 0) return;
+					delivered = delivered
+						.then(() =>
+							self.traceDelivery("watch_prefix.deliver", latest.size, () =>
+								deliver([...latest.values()]),
+							),
+						)
+						.catch((e: unknown) => {
+							if (done) return;
+							done = true;
+							controller.error(toKvError(e));
+						});
+				};
+
+				self.events.on("change", listener);
+				self.startChangePoller();
+			},
+			cancel() {
+				done = true;
+				if (listener) {
+					self.events.off("change", listener);
+				}
+				closeWatcher?.();
+				self.stopChangePollerIfIdle();
+			},
+		});
 	}
 
-	// Minimal Atomic Stub
 	/**
-	 * Begin an atomic transaction.
-	 * Allows multiple operations (check, set, delete) to be committed together.
+	 * Stream the persistent change log: replays retained history after
+	 * `since`, then tails live writes from this and other connections.
+	 * Persist the `seq` of the last processed event and pass it back as
+	 * `since` to resume after a crash without missing writes. If that position
+	 * has already been trimmed by the retention policy, the stream errors.
+	 * A `set` whose value was overwritten by a later change is skipped, as
+	 * that change is delivered too.
+	 * @param options Start position and key prefix filter
+	 * @returns A ReadableStream of change events in commit order
 	 */
-	atomic() {
+	changes<T = unknown>(
+		options: KvChangesOptions = {},
+	): ReadableStream<KvChangeEvent<T>> {
 		const self = this;
-		interface AtomicCheck {
-			key: KvKey;
-			version: string | null;
-		}
-		interface AtomicOp {
-			type: "set" | "delete";
-			key: KvKey;
-			value?: unknown;
-			options?: KvSetOptions;
-		}
-
-		const checks: AtomicCheck[] = [];
-		const ops: AtomicOp[] = [];
-		return {
-			check(key: KvKey, version: string | null) {
-				checks.push({ key, version });
-				return this;
-			},
-			set(key: KvKey, value: unknown, options?: KvSetOptions) {
-				ops.push({ type: "set", key, value, options });
-				return this;
-			},
-			delete(key: KvKey) {
-				ops.push({ type: "delete", key });
-				return this;
-			},
-			async commit(): Promise<KvCommitResult> {
-				return self.trace("atomic_commit", async (span) => {
-					span?.setAttribute("db.operation_count", ops.length);
-					// Transaction
-					const transaction = self.db.transaction(() => {
-						const now = Date.now();
-						// 1. Checks
-						for (const check of checks) {
-							const pk = encodeKey(check.key);
-							const existing = self.db
-								.prepare(SQL.SELECT_META_CHECK)
-								.get(pk) as {
-								version: string;
-								date_expired: number | null;
-							} | null;
+		const matches = this.selectorMatcher({ prefix: options.prefix });
+		let lastSeq = options.since ?? this.readMeta(TRIMMED_SEQ_META_KEY);
+		let wake: (() => void) | null = null;
+		const notify = () => {
+			wake?.();
+			wake = null;
+		};
 
-							// Handle expiration in check
-							let effectiveVersion = existing?.version;
-							if (existing?.date_expired && existing.date_expired < now) {
-								effectiveVersion = undefined; // Expired = Missing roughly
-							}
-							// Check
-							if (check.version === null) {
-								if (effectiveVersion)
-									throw new Error(KvErrors.ERROR_CHECK_FAILED_KEY_EXISTS);
-							} else {
-								if (!effectiveVersion || effectiveVersion !== check.version) {
-									throw new Error(KvErrors.ERROR_CHECK_FAILED_VERSION_MISMATCH);
-								}
-							}
+		return new ReadableStream<KvChangeEvent<T>>(
+			{
+				start() {
+					self.events.on("change", notify);
+					self.events.on("close", notify);
+					self.startChangePoller();
+				},
+				async pull(controller) {
+					while (!self.closed) {
+						if (lastSeq < self.readMeta(TRIMMED_SEQ_META_KEY)) {
+							controller.error(new KvChangesTrimmedError(lastSeq));
+							return;
 						}
+						const rows = self.db
+							.query(SQL.SELECT_CHANGE_FEED)
+							.all(lastSeq, CHANGE_FEED_BATCH_SIZE) as ChangeRow[];
+						const matching = rows.filter((row) => matches(row.pk));
+						const sets = matching.filter((row) => row.type === "set");
+						const current = await self.validateReads(
+							self.readEntries<T>(sets.map((row) => decodeKey(row.pk))),
+						);
 
-						// 2. Ops
-						const newVersion = ulid();
-						const changedKeys: KvKey[] = [];
-
-						for (const op of ops) {
-							if (op.type === "set") {
-								const pk = encodeKey(op.key);
-								const dateExpired = op.options?.expireIn
-									? now + op.options.expireIn
-									: null;
-
-								self.db.prepare(SQL.UPSERT).run({
-									$pk: pk,
-									$key_json: JSON.stringify(op.key),
-									$value_json: JSON.stringify(op.value),
-									$version: newVersion,
-									$now: now,
-									$date_expired: dateExpired,
+						let emitted = 0;
+						let i = 0;
+						for (const row of rows) {
+							lastSeq = row.seq;
+							if (!matches(row.pk)) continue;
+							const key = decodeKey(row.pk);
+							if (row.type !== "set") {
+								controller.enqueue({
+									seq: row.seq,
+									type: row.type,
+									key,
+									value: null,
+									version: null,
 								});
-								changedKeys.push(op.key);
-							} else if (op.type === "delete") {
-								const pk = encodeKey(op.key);
-								self.db.prepare(SQL.DELETE).run(pk);
-								changedKeys.push(op.key);
+								emitted++;
+								continue;
+							}
+							const entry = current[i++];
+							if (entry?.version && entry.version === row.version) {
+								controller.enqueue({
+									seq: row.seq,
+									type: "set",
+									key,
+									value: entry.value,
+									version: entry.version,
+								});
+								emitted++;
 							}
 						}
-						return { newVersion, changedKeys };
-					});
-
-					try {
-						const res = transaction();
-						// Emit changes after commit
-						if (res.changedKeys.length > 0) {
-							self.events.emit("change", res.changedKeys);
-						}
-						return { ok: true, version: res.newVersion };
-					} catch (_e) {
-						return { ok: false };
+						if (emitted > 0) return;
+						if (rows.length === CHANGE_FEED_BATCH_SIZE) continue;
+						// Caught up: wait for the next local or polled write
+						await new Promise<void>((resolve) => {
+							wake = resolve;
+						});
 					}
-				});
+					controller.close();
+				},
+				cancel() {
+					self.events.off("change", notify);
+					self.events.off("close", notify);
+					notify();
+					self.stopChangePollerIfIdle();
+				},
 			},
+			{ highWaterMark: 0 },
+		);
+	}
+
+	/**
+	 * Define a secondary index over the entries under `options.prefix`.
+	 * The index is built from the existing entries, then kept up to date in
+	 * the same transaction as every write. A write that would give two
+	 * entries the same value in a unique index fails: `set` throws and
+	 * `atomic().commit()` returns `{ ok: false }`.
+	 * Definitions are not persisted: define the same indexes in every
+	 * process that writes to the database.
+	 * Not available on encrypted stores, since index values are stored in
+	 * plaintext.
+	 * @param name Index name, used by `lookup` and `listIndex`
+	 * @param options Key prefix, value extractor and uniqueness
+	 */
+	async defineIndex<T = unknown>(
+		name: string,
+		options: KvIndexOptions<T>,
+	): Promise<void> {
+		if (this.values.encryptionLayer) {
+			throw new KvInvalidStateError(KvErrors.ERROR_INDEX_WITH_ENCRYPTION);
+		}
+		const index: IndexDefinition = {
+			name,
+			covers: this.selectorMatcher({ prefix: options.prefix }),
+			on: options.on as IndexDefinition["on"],
+			unique: options.unique ?? false,
 		};
+		const build = this.db.transaction(() => {
+			const now = Date.now();
+			this.db.run(SQL.DELETE_INDEX, [name]);
+			const { conditions, params } = this.rangeConditions("pk", {
+				prefix: options.prefix,
+			});
+			conditions.push("(date_expired IS NULL OR date_expired >= ?)");
+			params.push(now);
+			const rows = this.db
+				.query(`${SQL.SELECT_LIST_BASE} WHERE ${conditions.join(" AND ")}`)
+				.iterate(...params);
+			for (const row of rows) {
+				const r = row as GetRow;
+				const value = this.values.decode(r.value, r.value_encoding, r.pk);
+				const indexed = indexValueOf(index, decodeKey(r.pk), value);
+				if (indexed) this.insertIndexEntry(index, r.pk, indexed, now);
+			}
+		});
+		build();
+		this.indexes.set(name, index);
 	}
 
 	/**
-	 * Increments a Uint8Array lexicographically.
-	 * This function treats the byte array as a number and increments it,
-	 * handling carries and overflow by extending the array.
-	 *
-	 * @param bytes The Uint8Array to increment. This array will not be mutated.
-	 * @returns A new Uint8Array representing the incremented bytes.
+	 * Find the entries whose indexed value equals `value`.
+	 * @param name Index name given to `defineIndex`
+	 * @param value A key part, or a key for compound indexes
+	 * @returns Matching entries in key order; at most one for unique indexes
 	 */
+	async lookup<T = unknown>(
+		name: string,
+		value: KvKeyPart | KvKey,
+	): Promise<KvEntry<T>[]> {
+		return this.trace("lookup", async (span) => {
+			span?.setAttribute("db.index", name);
+			this.requireIndex(name);
+			const rows = this.db
+				.query(SQL.SELECT_INDEX_LOOKUP)
+				.all(name, encodeIndexValue(value), Date.now()) as GetRow[];
+			const entries = rows.map((row) => ({
+				key: decodeKey(row.pk),
+				value: this.values.decode(row.value, row.value_encoding, row.pk) as T,
+				version: row.version,
+			}));
+			return (await this.validateReads(entries)) as KvEntry<T>[];
+		});
+	}
 
-	private incrementBytes(bytes: Uint8Array): Uint8Array {
-		// Copy to avoid mutating input
-		const res = new Uint8Array(bytes);
-		// Increment starting from end
-		for (let i = res.length - 1; i >= 0; i--) {
-			const byte = res[i];
-			if (byte === undefined) continue;
-			if (byte < 0xff) {
-				res[i] = byte + 1;
-				return res;
+	/**
+	 * List entries ordered by their indexed value.
+	 * @param name Index name given to `defineIndex`
+	 * @param selector Range of indexed values (prefix, start, end), as for `list`
+	 * @param options List options (limit, reverse)
+	 * @returns An async iterator over the entries
+	 */
+	listIndex<T = unknown>(
+		name: string,
+		selector: KvListSelector,
+		options: KvIndexListOptions = {},
+	): AsyncIterableIterator<KvEntry<T>> {
+		this.requireIndex(name);
+		const { conditions, params } = this.rangeConditions("i.value", selector);
+		conditions.unshift(
+			"i.name = ?",
+			"(kv.date_expired IS NULL OR kv.date_expired >= ?)",
+		);
+		params.unshift(name, Date.now());
+
+		const order = options.reverse ? "DESC" : "ASC";
+		let sql = `${SQL.SELECT_INDEX_BASE} WHERE ${conditions.join(" AND ")} ORDER BY i.value ${order}, i.pk ${order}`;
+		if (options.limit) {
+			sql += " LIMIT ?";
+			params.push(options.limit);
+		}
+		const iterator = this.db.query(sql).iterate(...params);
+
+		const self = this;
+		async function* gen(): AsyncGenerator<KvEntry<T>> {
+			for (const row of iterator) {
+				const r = row as GetRow;
+				const entry: KvEntry<T> = {
+					key: decodeKey(r.pk),
+					value: self.values.decode(r.value, r.value_encoding, r.pk) as T,
+					version: r.version,
+				};
+				yield (await self.validateReads([entry]))[0] as KvEntry<T>;
 			}
-			res[i] = 0;
 		}
-		// Overflow (e.g. [255, 255])
-		return new Uint8Array([...res, 0]);
+		return gen();
 	}
 
-	private async trace<R>(
-		name: string,
-		fn: (span: Span | null) => Promise<R>,
-	): Promise<R> {
-		if (!this.tracer) return fn(null);
-		return this.tracer.startActiveSpan(`bunkv.${name}`, async (span) => {
-			try {
-				const res = await fn(span);
-				return res;
-			} catch (e: unknown) {
-				if (e instanceof Error) span.recordException(e);
-				span.setStatus({ code: 2 }); // Error
-				throw e;
+	/**
+	 * Add a message to the durable queue.
+	 * @param value The message payload
+	 * @param options Delivery delay, retry backoff and fallback keys
+	 */
+	async enqueue(
+		value: unknown,
+		options?: KvEnqueueOptions,
+	): Promise<KvCommitResult> {
+		return this.atomic().enqueue(value, options).commit();
+	}
+
+	/**
+	 * Listen for queue messages.
+	 * Delivery is at-least-once: a message is removed only after `handler`
+	 * resolves, retried per its backoff schedule when it throws, and written
+	 * to its `keysIfUndelivered` keys once all retries have failed.
+	 * @param handler Called for each delivered message
+	 * @returns A Promise that resolves when the store is closed
+	 */
+	listenQueue(
+		handler: (value: unknown) => Promise<void> | void,
+	): Promise<void> {
+		if (this.stopQueue) {
+			return Promise.reject(
+				new KvInvalidStateError(KvErrors.ERROR_QUEUE_ALREADY_LISTENING),
+			);
+		}
+		return new Promise((resolve, reject) => {
+			this.stopQueue = resolve;
+			this.runQueue(handler).then(resolve, reject);
+		});
+	}
+
+	/**
+	 * Delete expired rows in batches of the configured size.
+	 * Runs periodically when the `sweeper` option is set; can also be called directly.
+	 * Deleted keys are reported to watchers as "expire" changes.
+	 * @returns The number of rows deleted
+	 */
+	async sweepExpired(): Promise<number> {
+		let total = 0;
+		while (!this.closed) {
+			const sweep = this.db.transaction(() => {
+				const rows = this.db
+					.query(SQL.DELETE_EXPIRED_BATCH)
+					.all(Date.now(), this.sweepBatchSize) as { pk: Uint8Array }[];
+				const changes = rows.map(
+					(row): KvChange => ({
+						key: decodeKey(row.pk),
+						pk: row.pk,
+						type: "expire",
+						version: null,
+					}),
+				);
+				this.logChanges(changes);
+				return changes;
+			});
+			const changes = sweep();
+			total += changes.length;
+			this.publishChanges(changes);
+			if (changes.length < this.sweepBatchSize) break;
+			// Let writers in between batches
+			await new Promise((resolve) => setImmediate(resolve));
+		}
+		return total;
+	}
+
+	/**
+	 * Re-encrypt every value and queue message not encrypted with the current
+	 * key, including values written before encryption was turned on. Run it
+	 * after changing `currentKeyId`, before dropping the old key.
+	 * Versionstamps are kept and no change events are emitted.
+	 * @param options Rows rewritten per transaction
+	 * @returns The number of rows rewritten
+	 */
+	async reencrypt(options?: KvReencryptOptions): Promise<number> {
+		return this.trace("reencrypt", async (span) => {
+			const suffix = this.values.encryptionLayer;
+			if (!suffix) {
+				throw new KvInvalidStateError(KvErrors.ERROR_ENCRYPTION_DISABLED);
+			}
+			const batchSize = options?.batchSize ?? DEFAULT_REENCRYPT_BATCH_SIZE;
+			if (!Number.isInteger(batchSize) || batchSize < 1) {
+				throw new KvInvalidArgumentError(
+					KvErrors.ERROR_INVALID_OPTION("batchSize", "a positive integer"),
+				);
+			}
+
+			let total = 0;
+			let afterPk: Uint8Array = new Uint8Array(0);
+			let afterId = 0;
+			while (!this.closed) {
+				const rewrite = this.db.transaction(() => {
+					const rows = this.db
+						.query(SQL.SELECT_REENCRYPT_BATCH)
+						.all(afterPk, suffix, batchSize) as {
+						pk: Uint8Array;
+						value: StoredValue;
+						value_encoding: string | null;
+					}[];
+					for (const row of rows) {
+						if (row.value === null) continue;
+						const sealed = this.values.reseal(
+							{ data: row.value, encoding: row.value_encoding ?? "json" },
+							row.pk,
+						);
+						if (!sealed) continue;
+						this.db.run(SQL.UPDATE_VALUE, [
+							sealed.data,
+							sealed.encoding,
+							row.pk,
+						]);
+						total++;
+					}
+					return rows;
+				});
+				const rows = rewrite();
+				if (rows.length < batchSize) break;
+				afterPk = rows.at(-1)?.pk ?? afterPk;
+				// Let writers in between batches
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+			while (!this.closed) {
+				const rewrite = this.db.transaction(() => {
+					const messages = this.db
+						.query(SQL.SELECT_QUEUE_REENCRYPT_BATCH)
+						.all(afterId, suffix, batchSize) as {
+						id: number;
+						value: StoredValue;
+						value_encoding: string | null;
+					}[];
+					for (const message of messages) {
+						if (message.value === null) continue;
+						const sealed = this.values.reseal(
+							{
+								data: message.value,
+								encoding: message.value_encoding ?? "json",
+							},
+							QUEUE_MESSAGE_AAD,
+						);
+						if (!sealed) continue;
+						this.db.run(SQL.UPDATE_QUEUE_VALUE, [
+							sealed.data,
+							sealed.encoding,
+							message.id,
+						]);
+						total++;
+					}
+					return messages;
+				});
+				const messages = rewrite();
+				if (messages.length < batchSize) break;
+				afterId = messages.at(-1)?.id ?? afterId;
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+			span?.setAttribute("db.rows_reencrypted", total);
+			return total;
+		});
+	}
+
+	/**
+	 * Export entries as NDJSON, one line per entry with its key, value,
+	 * versionstamp and expiry. Values are decoded and written with type tags,
+	 * so they import into a store with any codec, compression or encryption.
+	 * Rows are read in batches; writes made during the export may or may not
+	 * be included.
+	 * @param selector Selection criteria (prefix, range), as for `list`
+	 * @returns A stream of UTF-8 NDJSON, e.g. for `Bun.write` or a `Response`
+	 */
+	export(selector: KvListSelector): ReadableStream<Uint8Array> {
+		const self = this;
+		const encoder = new TextEncoder();
+		let after: Uint8Array | null = null;
+
+		return new ReadableStream<Uint8Array>({
+			pull(controller) {
+				const { conditions, params } = self.rangeConditions("pk", selector);
+				conditions.push("(date_expired IS NULL OR date_expired >= ?)");
+				params.push(Date.now());
+				if (after) {
+					conditions.push("pk > ?");
+					params.push(after);
+				}
+				const sql = `${SQL.SELECT_EXPORT_BASE} WHERE ${conditions.join(" AND ")} ORDER BY pk ASC LIMIT ?`;
+				params.push(EXPORT_BATCH_SIZE);
+				const rows = self.db.query(sql).all(...params) as ExportRow[];
+
+				let chunk = "";
+				for (const row of rows) chunk += encodeExportLine(row, self.values);
+				if (chunk) controller.enqueue(encoder.encode(chunk));
+				after = rows.at(-1)?.pk ?? null;
+				if (rows.length < EXPORT_BATCH_SIZE) controller.close();
+			},
+		});
+	}
+
+	/**
+	 * Import NDJSON written by `export()`. Values are encoded with this
+	 * store's codec, compression and encryption. Entries are written in batches,
+	 * each in its own transaction with a fresh versionstamp; the exported
+	 * versionstamps are not reused. Entries that have already expired are
+	 * skipped, and values are validated against the schema of their key.
+	 * If a batch fails, earlier batches stay committed.
+	 * @param source NDJSON text or bytes, e.g. `Bun.file(path).stream()`
+	 * @param options Conflict mode and batch size
+	 * @returns How many entries were written and skipped
+	 */
+	async import(
+		source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+		options: KvImportOptions = {},
+	): Promise<KvImportResult> {
+		return this.trace("import", async (span) => {
+			const mode = options.mode ?? "overwrite";
+			if (!["overwrite", "skip", "fail"].includes(mode)) {
+				throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_IMPORT_MODE);
+			}
+			const batchSize = options.batchSize ?? DEFAULT_IMPORT_BATCH_SIZE;
+			if (!Number.isInteger(batchSize) || batchSize < 1) {
+				throw new KvInvalidArgumentError(
+					KvErrors.ERROR_INVALID_OPTION("batchSize", "a positive integer"),
+				);
+			}
+			const result: KvImportResult = { imported: 0, skipped: 0 };
+
+			const writeBatch = this.db.transaction((batch: ImportBatchEntry[]) => {
+				const now = Date.now();
+				const version = this.nextVersionstamp();
+				const changes: KvChange[] = [];
+				for (const { entry, value, lineNumber } of batch) {
+					if (entry.expireAt !== null && entry.expireAt < now) {
+						result.skipped++;
+						continue;
+					}
+					if (mode !== "overwrite") {
+						const existing = this.db
+							.query(SQL.SELECT_META_CHECK)
+							.get(entry.pk) as {
+							date_expired: number | null;
+						} | null;
+						const live =
+							existing &&
+							(existing.date_expired === null || existing.date_expired >= now);
+						if (live && mode === "skip") {
+							result.skipped++;
+							continue;
+						}
+						if (live) {
+							throw new KvImportError(
+								KvErrors.ERROR_IMPORT_KEY_EXISTS(lineNumber),
+								lineNumber,
+							);
+						}
+					}
+					this.db.query(SQL.UPSERT).run({
+						$pk: entry.pk,
+						$value: value.data,
+						$value_encoding: value.encoding,
+						$version: version,
+						$now: now,
+						$date_expired: entry.expireAt,
+					});
+					changes.push({
+						key: entry.key,
+						pk: entry.pk,
+						type: "set",
+						version,
+					});
+				}
+				this.logChanges(changes);
+				return changes;
+			});
+			const flush = (batch: ImportBatchEntry[]) => {
+				const changes = writeBatch(batch);
+				result.imported += changes.length;
+				this.publishChanges(changes);
+			};
+
+			let batch: ImportBatchEntry[] = [];
+			for await (const { text, lineNumber } of readLines(source)) {
+				const entry = decodeExportLine(text, lineNumber);
+				// Written with this store's codec, compression and encryption
+				const value = this.values.encode(
+					await this.validateWrite(entry.key, entry.pk, entry.value),
+					entry.pk,
+				);
+				this.checkWriteLimits({
+					keys: [entry.pk],
+					valueSizes: [value.size],
+				});
+				batch.push({ entry, value, lineNumber });
+				if (batch.length >= batchSize) {
+					flush(batch);
+					batch = [];
+				}
+			}
+			if (batch.length > 0) flush(batch);
+
+			span?.setAttribute("db.imported", result.imported);
+			return result;
+		});
+	}
+
+	/**
+	 * Write a consistent snapshot of the database to `destPath`.
+	 * Uses `VACUUM INTO`, which reads from one transaction while other
+	 * connections keep writing. The destination file must not exist.
+	 * @param destPath File path for the backup
+	 */
+	async backup(destPath: string): Promise<void> {
+		return this.trace("backup", async (span) => {
+			span?.setAttribute("db.backup_path", destPath);
+			const dir = path.dirname(destPath);
+			fs.mkdirSync(dir, { recursive: true });
+			this.db.run(SQL.VACUUM_INTO, [destPath]);
+		});
+	}
+
+	/**
+	 * Close the database connection.
+	 * Stops any queue listener; its `listenQueue` promise resolves.
+	 */
+	async close() {
+		this.closed = true;
+		if (this.sweepTimer) clearInterval(this.sweepTimer);
+		if (this.backupTimer) clearInterval(this.backupTimer);
+		if (this.changePoller) clearInterval(this.changePoller);
+		this.events.emit("queue");
+		this.events.emit("close");
+		this.stopQueue?.();
+		this.readers?.close();
+		this.db.close();
+		this.telemetry.close();
+		this.events.removeAllListeners();
+	}
+
+	/**
+	 * The latest versionstamp of the store. Read it before listing a range
+	 * and pass it to `checkRange`: the commit then fails if any key in the
+	 * range was written, deleted or expired since. Unlike the highest version
+	 * seen while listing, it also covers keys deleted before the listing.
+	 * @returns A versionstamp; all zeros if nothing has been written yet
+	 */
+	async currentVersion(): Promise<string> {
+		return this.trace("current_version", async () =>
+			formatVersionstamp(this.readMeta(VERSIONSTAMP_META_KEY)),
+		);
+	}
+
+	/**
+	 * Begin an atomic transaction.
+	 * Allows multiple operations (check, set, delete, sum, min, max, enqueue) to be committed together.
+	 */
+	atomic() {
+		const self = this;
+		interface AtomicCheck {
+			key: KvKey;
+			version: string | null;
+		}
+
+		interface AtomicRangeCheck {
+			selector: KvListSelector;
+			version: string | null;
+		}
+
+		interface AtomicEnqueue {
+			value: unknown;
+			options?: KvEnqueueOptions;
+		}
+
+		const checks: AtomicCheck[] = [];
+		const rangeChecks: AtomicRangeCheck[] = [];
+		const mutations: KvMutation[] = [];
+		const enqueues: AtomicEnqueue[] = [];
+		return {
+			check(key: KvKey, version: string | null) {
+				checks.push({ key, version });
+				return this;
+			},
+			/**
+			 * Require that no key in the range was written, deleted or expired
+			 * after `version`, e.g. `currentVersion()` read before listing it.
+			 * With `null`, require that the range holds no keys.
+			 */
+			checkRange(selector: KvListSelector, version: string | null) {
+				rangeChecks.push({ selector, version });
+				return this;
+			},
+			/**
+			 * Add raw mutations to the operation.
+			 * `sum`, `min` and `max` mutations require a `KvU64` value.
+			 */
+			mutate(...muts: KvMutation[]) {
+				for (const mutation of muts) {
+					if (
+						(mutation.type === "sum" ||
+							mutation.type === "min" ||
+							mutation.type === "max") &&
+						!(mutation.value instanceof KvU64)
+					) {
+						throw new KvInvalidArgumentError(
+							KvErrors.ERROR_MUTATION_REQUIRES_U64(mutation.type),
+						);
+					}
+					mutations.push(mutation);
+				}
+				return this;
+			},
+			/**
+			 * Set a value; it is validated at commit if the key has a schema.
+			 */
+			set<const K extends KvKey>(
+				key: K,
+				value: KvSchemaInput<S, K>,
+				options?: KvSetOptions,
+			) {
+				return this.mutate({
+					type: "set",
+					key,
+					value,
+					expireIn: options?.expireIn,
+				});
+			},
+			delete(key: KvKey) {
+				return this.mutate({ type: "delete", key });
+			},
+			/**
+			 * Add `n` to the `KvU64` stored at `key`, wrapping at 64 bits.
+			 * A missing key is treated as 0.
+			 */
+			sum(key: KvKey, n: bigint) {
+				return this.mutate({ type: "sum", key, value: new KvU64(n) });
+			},
+			/**
+			 * Store the minimum of `n` and the `KvU64` stored at `key`.
+			 * A missing key is set to `n`.
+			 */
+			min(key: KvKey, n: bigint) {
+				return this.mutate({ type: "min", key, value: new KvU64(n) });
+			},
+			/**
+			 * Store the maximum of `n` and the `KvU64` stored at `key`.
+			 * A missing key is set to `n`.
+			 */
+			max(key: KvKey, n: bigint) {
+				return this.mutate({ type: "max", key, value: new KvU64(n) });
+			},
+			/**
+			 * Add a queue message; it is only enqueued if the commit succeeds.
+			 */
+			enqueue(value: unknown, options?: KvEnqueueOptions) {
+				validateEnqueueOptions(options);
+				enqueues.push({ value, options });
+				return this;
+			},
+			async commit(): Promise<KvCommitResult> {
+				return self.trace("atomic_commit", async (span) => {
+					span?.setAttribute("db.operation_count", mutations.length);
+					// Encode up front so limits are enforced before any SQL runs
+					const checkPks = checks.map((check) => encodeKey(check.key));
+					const rangePks = rangeChecks.flatMap(({ selector }) =>
+						[selector.prefix, selector.start, selector.end].flatMap((key) =>
+							key ? [encodeKey(key)] : [],
+						),
+					);
+					const mutationPks = mutations.map((m) => encodeKey(m.key));
+					// Validators may be async, so they run before the transaction
+					const setValues = await Promise.all(
+						mutations.map(async (m, i) => {
+							if (m.type !== "set") return null;
+							const pk = mutationPks[i] as Uint8Array;
+							return self.values.encode(
+								await self.validateWrite(m.key, pk, m.value),
+								pk,
+							);
+						}),
+					);
+					const messages = enqueues.map(({ value }) =>
+						self.values.encode(value, QUEUE_MESSAGE_AAD),
+					);
+					self.checkWriteLimits({
+						checks: checks.length + rangeChecks.length,
+						mutations: mutations.length,
+						keys: [...checkPks, ...rangePks, ...mutationPks],
+						valueSizes: [...setValues, ...messages].flatMap((v) =>
+							v ? [v.size] : [],
+						),
+					});
+
+					// Transaction
+					const transaction = self.db.transaction(() => {
+						const now = Date.now();
+						// 1. Checks
+						for (const [i, check] of checks.entries()) {
+							const pk = checkPks[i] as Uint8Array;
+							const existing = self.db
+								.prepare(SQL.SELECT_META_CHECK)
+								.get(pk) as {
+								version: string;
+								date_expired: number | null;
+							} | null;
+
+							// Handle expiration in check
+							let effectiveVersion = existing?.version;
+							if (existing?.date_expired && existing.date_expired < now) {
+								effectiveVersion = undefined; // Expired = Missing roughly
+							}
+							// Check
+							const actual = effectiveVersion ?? null;
+							if (actual !== check.version) {
+								throw new KvCheckError(
+									check.version === null
+										? KvErrors.ERROR_CHECK_FAILED_KEY_EXISTS
+										: KvErrors.ERROR_CHECK_FAILED_VERSION_MISMATCH,
+									i,
+									check.key,
+									check.version,
+									actual,
+								);
+							}
+						}
+
+						for (const [i, { selector, version }] of rangeChecks.entries()) {
+							const failure = self.findRangeChange(selector, version, now);
+							if (failure) {
+								throw new KvCheckError(
+									failure.message,
+									i,
+									failure.key,
+									version,
+									failure.actual,
+									selector,
+								);
+							}
+						}
+
+						// 2. Mutations
+						const newVersion = self.nextVersionstamp();
+						const changes: KvChange[] = [];
+
+						const upsert = (
+							pk: Uint8Array,
+							{ data, encoding }: EncodedValue,
+							expireIn?: number,
+						) => {
+							self.db.prepare(SQL.UPSERT).run({
+								$pk: pk,
+								$value: data,
+								$value_encoding: encoding,
+								$version: newVersion,
+								$now: now,
+								$date_expired: expireIn ? now + expireIn : null,
+							});
+						};
+
+						for (const [i, mutation] of mutations.entries()) {
+							const pk = mutationPks[i] as Uint8Array;
+							if (mutation.type === "set") {
+								upsert(pk, setValues[i] as EncodedValue, mutation.expireIn);
+							} else if (mutation.type === "delete") {
+								self.db.prepare(SQL.DELETE).run(pk);
+								changes.push({
+									key: mutation.key,
+									pk,
+									type: "delete",
+									version: newVersion,
+								});
+								continue;
+							} else {
+								// sum / min / max read the current value inside the transaction
+								const existing = self.db.prepare(SQL.SELECT_GET).get(pk) as {
+									value: StoredValue;
+									value_encoding: string | null;
+									date_expired: number | null;
+								} | null;
+
+								let result = mutation.value;
+								if (
+									existing &&
+									(existing.date_expired === null ||
+										existing.date_expired >= now)
+								) {
+									const current = self.values.decode(
+										existing.value,
+										existing.value_encoding,
+										pk,
+									);
+									if (!(current instanceof KvU64)) {
+										throw new KvInvalidValueError(
+											KvErrors.ERROR_MUTATION_NON_U64(mutation.type),
+										);
+									}
+									const apply = { sum: sumU64, min: minU64, max: maxU64 }[
+										mutation.type
+									];
+									result = apply(current, mutation.value);
+								}
+								const schema = schemaFor(self.schemas, pk);
+								upsert(
+									pk,
+									self.values.encode(
+										schema
+											? validateValueSync(
+													schema,
+													mutation.key,
+													result,
+													mutation.type,
+												)
+											: result,
+										pk,
+									),
+								);
+							}
+							changes.push({
+								key: mutation.key,
+								pk,
+								type: "set",
+								version: newVersion,
+							});
+						}
+						self.logChanges(changes);
+
+						// 3. Queue messages
+						for (const [i, { options }] of enqueues.entries()) {
+							const { data, encoding } = messages[i] as EncodedValue;
+							self.db.prepare(SQL.INSERT_QUEUE_MESSAGE).run({
+								$value: data,
+								$value_encoding: encoding,
+								$ready_at: now + (options?.delay ?? 0),
+								$backoff_json: options?.backoffSchedule
+									? JSON.stringify(options.backoffSchedule)
+									: null,
+								$keys_if_undelivered_json: options?.keysIfUndelivered?.length
+									? serializeKeys(options.keysIfUndelivered)
+									: null,
+								$now: now,
+							});
+						}
+						return { newVersion, changes };
+					});
+
+					try {
+						const res = transaction();
+						self.telemetry.recordCommit("committed");
+						// Emit changes after commit
+						self.publishChanges(res.changes);
+						if (enqueues.length > 0) {
+							self.events.emit("queue");
+						}
+						return { ok: true, version: res.newVersion };
+					} catch (error) {
+						// Expected failures; anything else is a real error
+						if (
+							error instanceof KvCheckError ||
+							error instanceof KvUniqueConflictError
+						) {
+							span?.setAttribute("db.commit_error", error.code);
+							self.telemetry.recordCommit(error.code);
+							return { ok: false, error };
+						}
+						throw error;
+					}
+				});
+			},
+		};
+	}
+
+	/**
+	 * A view of the store where every key is relative to `prefix`.
+	 * @param prefix Key prefix of the subspace, e.g. `["tenant", id]`
+	 */
+	subspace(prefix: KvKey): KvSubspace {
+		return new KvSubspace(this, prefix);
+	}
+
+	/**
+	 * Run a read-modify-write transaction.
+	 * Every key the callback reads is checked at commit: if another writer
+	 * changed one of them, the buffered writes are discarded and the callback
+	 * runs again after a backoff. If the callback throws, nothing is written.
+	 * The callback may run several times, so keep side effects out of it.
+	 * @param fn Reads through `tx` and buffers writes on it
+	 * @param options Retry settings
+	 * @returns What the callback returned on the attempt that committed
+	 * @throws KvTransactionConflictError if every attempt conflicted
+	 */
+	async transaction<R>(
+		fn: (tx: KvTransaction) => Promise<R> | R,
+		options?: KvTransactionOptions,
+	): Promise<R> {
+		const resolved = resolveTransactionOptions(options);
+		return this.trace("transaction", async (span) => {
+			for (let attempt = 1; ; attempt++) {
+				span?.setAttribute("db.transaction_attempts", attempt);
+				const op = this.atomic();
+				const reads = new Set<string>();
+				let finished = false;
+				const active = () => {
+					if (finished) {
+						throw new KvInvalidStateError(KvErrors.ERROR_TRANSACTION_FINISHED);
+					}
+				};
+				// The first version seen is the one the callback acted on
+				const track = <T>(entries: KvEntryMaybe<T>[]) => {
+					for (const entry of entries) {
+						const id = keyId(encodeKey(entry.key));
+						if (reads.has(id)) continue;
+						reads.add(id);
+						op.check(entry.key, entry.version);
+					}
+					return entries;
+				};
+				const tx: KvTransaction = {
+					get: async <T>(key: KvKey) => {
+						active();
+						return track([await this.get<T>(key)])[0] as KvEntryMaybe<T>;
+					},
+					getMany: async <T>(keys: KvKey[]) => {
+						active();
+						return track((await this.getMany<T>(keys)) as KvEntryMaybe<T>[]);
+					},
+					set(key, value, options) {
+						active();
+						op.set(key, value, options);
+						return this;
+					},
+					delete(key) {
+						active();
+						op.delete(key);
+						return this;
+					},
+					sum(key, n) {
+						active();
+						op.sum(key, n);
+						return this;
+					},
+					min(key, n) {
+						active();
+						op.min(key, n);
+						return this;
+					},
+					max(key, n) {
+						active();
+						op.max(key, n);
+						return this;
+					},
+					enqueue(value, options) {
+						active();
+						op.enqueue(value, options);
+						return this;
+					},
+				};
+
+				let result: R;
+				try {
+					result = await fn(tx);
+				} finally {
+					finished = true;
+				}
+				const res = await op.commit();
+				if (res.ok) return result;
+				if (!(res.error instanceof KvCheckError)) throw res.error;
+				if (attempt > resolved.maxRetries) {
+					throw new KvTransactionConflictError(attempt, res.error);
+				}
+				await Bun.sleep(retryDelay(attempt - 1, resolved));
+			}
+		});
+	}
+
+	private startSweeper({ interval, batchSize }: Required<KvSweeperOptions>) {
+		this.sweepBatchSize = batchSize;
+
+		let sweeping = false;
+		this.sweepTimer = setInterval(async () => {
+			if (sweeping) return;
+			sweeping = true;
+			try {
+				await this.trace("sweep", () => this.sweepExpired());
+			} catch (error) {
+				// A failed sweep must not crash the host; the next tick retries
+				this.onError(error, "sweeper");
+			} finally {
+				sweeping = false;
+			}
+		}, interval);
+		this.sweepTimer.unref(); // Do not keep the process alive
+	}
+
+	private startBackups(resolved: Required<KvBackupOptions>) {
+		fs.mkdirSync(resolved.dir, { recursive: true });
+
+		let running = false;
+		this.backupTimer = setInterval(async () => {
+			if (running || this.closed) return;
+			running = true;
+			try {
+				await this.backup(backupPath(resolved));
+				pruneBackups(resolved);
+			} catch (error) {
+				// e.g. a full disk; report it and try again on the next tick
+				this.onError(error, "backups");
+			} finally {
+				running = false;
+			}
+		}, resolved.interval);
+		this.backupTimer.unref(); // Do not keep the process alive
+	}
+
+	/**
+	 * Allocates the next versionstamp: 20 hex characters, strictly increasing
+	 * per database file. Must be called inside a write transaction so the
+	 * counter in `meta` is bumped atomically with the data it versions.
+	 */
+	private nextVersionstamp(): string {
+		const row = this.db.query(SQL.NEXT_VERSIONSTAMP).get() as {
+			value: number;
+		};
+		return formatVersionstamp(row.value);
+	}
+
+	/**
+	 * Appends changes to the `changes` table so other connections can see them.
+	 * Must be called inside the write transaction that made the changes.
+	 */
+	private logChanges(changes: KvChange[]) {
+		if (changes.length === 0) return;
+		// Every write path logs its changes in its transaction; indexes follow
+		this.updateIndexes(changes);
+		const now = Date.now();
+		const stmt = this.db.query(SQL.INSERT_CHANGE);
+		// Deletes and expiries have no version of their own; range checks still
+		// need to order them, so they get one from their transaction
+		const version = changes.every((change) => change.version)
+			? null
+			: this.nextVersionstamp();
+		for (const change of changes) {
+			stmt.run({
+				$pk: change.pk,
+				$type: change.type,
+				$version: change.version ?? version,
+				$origin: this.origin,
+				$now: now,
+			});
+		}
+		// Counted in the database so short-lived writers trim too
+		const last = this.db.query(SQL.SELECT_LAST_CHANGE_SEQ).get() as {
+			seq: number;
+		};
+		if (
+			last.seq - this.readMeta(TRIM_CHECKED_SEQ_META_KEY) >=
+			CHANGE_LOG_TRIM_EVERY
+		) {
+			this.trimChangeLog(now);
+		}
+	}
+
+	/**
+	 * Applies the change log retention policy (age and count).
+	 * Remembers the highest removed seq so `changes()` can detect gaps.
+	 */
+	private trimChangeLog(now: number) {
+		const last = this.db.query(SQL.SELECT_LAST_CHANGE_SEQ).get() as {
+			seq: number | null;
+		};
+		const lastSeq = last.seq ?? 0;
+		const byAge = this.db
+			.query(SQL.SELECT_CHANGE_SEQ_BEFORE)
+			.get(now - this.changeLogMaxAge) as { seq: number | null };
+		let trimSeq = byAge.seq ?? 0;
+		if (this.changeLogMaxCount !== null) {
+			trimSeq = Math.max(trimSeq, lastSeq - this.changeLogMaxCount);
+		}
+		if (trimSeq > this.readMeta(TRIMMED_SEQ_META_KEY)) {
+			const trimmed = this.db
+				.query(SQL.SELECT_MAX_CHANGE_VERSION_UP_TO)
+				.get(trimSeq) as { version: string | null };
+			if (trimmed.version) {
+				this.db.run(SQL.UPSERT_META, [
+					TRIMMED_VERSION_META_KEY,
+					Number.parseInt(trimmed.version, 16),
+				]);
+			}
+			this.db.run(SQL.TRIM_CHANGES, [trimSeq]);
+			this.db.run(SQL.UPSERT_META, [TRIMMED_SEQ_META_KEY, trimSeq]);
+		}
+		this.db.run(SQL.UPSERT_META, [TRIM_CHECKED_SEQ_META_KEY, lastSeq]);
+	}
+
+	private readMeta(key: string): number {
+		const row = this.db.query(SQL.SELECT_META).get(key) as {
+			value: number;
+		} | null;
+		return row?.value ?? 0;
+	}
+
+	/**
+	 * Notifies in-process watchers of committed changes.
+	 */
+	private publishChanges(changes: KvChange[]) {
+		if (changes.length > 0) {
+			this.events.emit("change", changes);
+		}
+	}
+
+	/**
+	 * Starts polling for writes made by other connections to the same file.
+	 * `PRAGMA data_version` changes only when another connection commits, so
+	 * the change log is read only when there is something new.
+	 */
+	private startChangePoller() {
+		if (this.changePoller || this.isMemory || this.closed) return;
+		this.dataVersion = this.readDataVersion();
+		const last = this.db.query(SQL.SELECT_LAST_CHANGE_SEQ).get() as {
+			seq: number | null;
+		};
+		this.changeSeq = last.seq ?? 0;
+		this.changePoller = setInterval(() => {
+			try {
+				this.pollChanges();
+			} catch (error) {
+				// e.g. SQLITE_BUSY outside WAL mode; the next poll catches up
+				this.onError(toKvError(error), "changePoller");
+			}
+		}, this.changePollInterval);
+		this.changePoller.unref(); // Do not keep the process alive
+	}
+
+	private stopChangePollerIfIdle() {
+		if (this.changePoller && this.events.listenerCount("change") === 0) {
+			clearInterval(this.changePoller);
+			this.changePoller = null;
+		}
+	}
+
+	private pollChanges() {
+		if (this.closed) return;
+		const dataVersion = this.readDataVersion();
+		if (dataVersion === this.dataVersion) return;
+
+		const rows = this.db
+			.query(SQL.SELECT_CHANGES_SINCE)
+			.all(this.changeSeq) as ChangeRow[];
+		// Only now, so a failed read is retried on the next poll
+		this.dataVersion = dataVersion;
+		const foreign: KvChange[] = [];
+		for (const row of rows) {
+			this.changeSeq = row.seq;
+			if (row.origin === this.origin) continue;
+			foreign.push({
+				key: decodeKey(row.pk),
+				pk: row.pk,
+				type: row.type,
+				version: row.version,
+			});
+		}
+		this.publishChanges(foreign);
+	}
+
+	private readDataVersion(): number {
+		const row = this.db.query(SQL.DATA_VERSION).get() as {
+			data_version: number;
+		};
+		return row.data_version;
+	}
+
+	/**
+	 * Runs the validators of schemas with `validateReads` on found entries.
+	 * @returns The entries, with the validators' output as values
+	 */
+	private async validateReads<T>(
+		entries: KvEntryMaybe<T>[],
+	): Promise<KvEntryMaybe<T>[]> {
+		if (!this.schemas.some((schema) => schema.validateReads)) return entries;
+		return Promise.all(
+			entries.map(async (entry) => {
+				if (entry.version === null) return entry;
+				const pk = encodeKey(entry.key);
+				const value = await this.validateRead(entry.key, pk, entry.value);
+				return { ...entry, value: value as T };
+			}),
+		);
+	}
+
+	/**
+	 * Runs the validator of the key's schema on a stored value, if the schema
+	 * has `validateReads` and does not transform values.
+	 * @returns The validator's output, or `value` as is
+	 */
+	private async validateRead(
+		key: KvKey,
+		pk: Uint8Array,
+		value: unknown,
+	): Promise<unknown> {
+		const schema = schemaFor(this.schemas, pk);
+		if (!schema?.validateReads || this.schemaTransforms(schema)) return value;
+		return validateValue(schema, key, value);
+	}
+
+	/**
+	 * Whether a write has found that the schema rejects its own output.
+	 * Remembered in `meta` so other connections skip read validation too.
+	 */
+	private schemaTransforms(schema: ResolvedSchema): boolean {
+		if (this.transformingSchemas.has(schema)) return true;
+		const metaKey = SCHEMA_TRANSFORMS_META_KEY + keyId(schema.prefix);
+		if (this.readMeta(metaKey) !== 1) return false;
+		this.transformingSchemas.add(schema);
+		return true;
+	}
+
+	/**
+	 * Runs the validator of the key's schema, if it has one.
+	 * @returns The value to store: the validator's output, or `value` as is
+	 */
+	private async validateWrite(
+		key: KvKey,
+		pk: Uint8Array,
+		value: unknown,
+	): Promise<unknown> {
+		const schema = schemaFor(this.schemas, pk);
+		if (!schema) return value;
+		const output = await validateValue(schema, key, value);
+		if (
+			schema.validateReads &&
+			!this.schemaTransforms(schema) &&
+			!(await acceptsOwnOutput(schema, output))
+		) {
+			this.transformingSchemas.add(schema);
+			this.db.run(SQL.UPSERT_META, [
+				SCHEMA_TRANSFORMS_META_KEY + keyId(schema.prefix),
+				1,
+			]);
+		}
+		return output;
+	}
+
+	/**
+	 * Reads entries for `keys` in input order from one read transaction.
+	 * Expired rows are reported as missing and cleaned up in a single batch.
+	 */
+	private readEntries<T>(
+		keys: KvKey[],
+		consistency: KvConsistencyLevel = "strong",
+	): KvEntryMaybe<T>[] {
+		const now = Date.now();
+		const pks = keys.map((key) => encodeKey(key));
+		const rows = new Map<string, GetRow>();
+		const db = this.connection(consistency);
+
+		const read = db.transaction(() => {
+			for (let i = 0; i < pks.length; i += GET_MANY_CHUNK_SIZE) {
+				const chunk = pks.slice(i, i + GET_MANY_CHUNK_SIZE);
+				const stmt = db.query(SQL.SELECT_GET_MANY(chunk.length));
+				for (const row of stmt.all(...chunk) as GetRow[]) {
+					rows.set(keyId(row.pk), row);
+				}
+			}
+		});
+		read();
+
+		const expired: { key: KvKey; pk: Uint8Array }[] = [];
+		const entries = keys.map((key, i): KvEntryMaybe<T> => {
+			const pk = pks[i] as Uint8Array;
+			const row = rows.get(keyId(pk));
+			if (!row) {
+				return { key, value: null, version: null };
+			}
+			if (row.date_expired !== null && row.date_expired < now) {
+				expired.push({ key, pk });
+				return { key, value: null, version: null };
+			}
+			return {
+				key,
+				value: this.values.decode(row.value, row.value_encoding, pk) as T,
+				version: row.version,
+			};
+		});
+
+		// Reader connections cannot write; the sweeper or a strong read cleans up
+		if (expired.length > 0 && db === this.db && !this.readonly) {
+			// Lazy cleanup; rows rewritten in the meantime are left alone
+			const cleanup = this.db.transaction(() => {
+				const stmt = this.db.query(SQL.DELETE_EXPIRED);
+				const changes: KvChange[] = [];
+				for (const { key, pk } of expired) {
+					if (stmt.run(pk, now).changes > 0) {
+						changes.push({ key, pk, type: "expire", version: null });
+					}
+				}
+				this.logChanges(changes);
+				return changes;
+			});
+			this.publishChanges(cleanup());
+		}
+		return entries;
+	}
+
+	private async runQueue(handler: (value: unknown) => Promise<void> | void) {
+		try {
+			while (!this.closed) {
+				try {
+					await this.deliverNextMessage(handler);
+				} catch (error) {
+					// e.g. SQLITE_BUSY, or a keysIfUndelivered write rejected by a
+					// unique index; report it and keep listening
+					this.onError(toKvError(error), "queue");
+					await this.waitForQueue(QUEUE_POLL_INTERVAL_MS);
+				}
+			}
+		} finally {
+			this.stopQueue = null;
+		}
+	}
+
+	/**
+	 * Delivers the next due message, or waits until one may be due.
+	 */
+	private async deliverNextMessage(
+		handler: (value: unknown) => Promise<void> | void,
+	) {
+		const now = Date.now();
+		const message = this.claimQueueMessage(now);
+		if (!message) {
+			// Sleep until the next message is due, an enqueue wakes us, or the poll interval elapses
+			const next = this.db.prepare(SQL.SELECT_QUEUE_NEXT_READY).get() as {
+				ready_at: number | null;
+			};
+			const wait =
+				next.ready_at === null
+					? QUEUE_POLL_INTERVAL_MS
+					: Math.min(Math.max(next.ready_at - now, 0), QUEUE_POLL_INTERVAL_MS);
+			await this.waitForQueue(wait);
+			return;
+		}
+
+		try {
+			// A message that cannot be decoded counts as a failed delivery
+			await handler(
+				this.values.decode(
+					message.value,
+					message.value_encoding,
+					QUEUE_MESSAGE_AAD,
+				),
+			);
+		} catch {
+			if (!this.closed) this.failQueueMessage(message);
+			return;
+		}
+		// If closed mid-delivery the lease expires and the message is redelivered
+		if (!this.closed) this.db.run(SQL.DELETE_QUEUE_MESSAGE, [message.id]);
+	}
+
+	/**
+	 * Leases the next due message so no other listener receives it meanwhile.
+	 */
+	private claimQueueMessage(now: number): QueueRow | null {
+		const claim = this.db.transaction(() => {
+			const row = this.db
+				.prepare(SQL.SELECT_QUEUE_READY)
+				.get(now) as QueueRow | null;
+			if (!row) return null;
+			this.db.prepare(SQL.CLAIM_QUEUE_MESSAGE).run({
+				$id: row.id,
+				$ready_at: now + QUEUE_LEASE_MS,
+			});
+			return row;
+		});
+		return claim.immediate();
+	}
+
+	/**
+	 * Schedules a retry for a failed delivery, or gives up on the message and
+	 * writes it to its `keysIfUndelivered` keys.
+	 */
+	private failQueueMessage(message: QueueRow) {
+		const attempts = message.attempts + 1;
+		const schedule: number[] = message.backoff_json
+			? JSON.parse(message.backoff_json)
+			: DEFAULT_BACKOFF_SCHEDULE;
+		const backoff = schedule[attempts - 1];
+		if (backoff !== undefined) {
+			this.db.run(SQL.RESCHEDULE_QUEUE_MESSAGE, [
+				Date.now() + backoff,
+				message.id,
+			]);
+			return;
+		}
+
+		try {
+			const keys = message.keys_if_undelivered_json
+				? deserializeKeys(message.keys_if_undelivered_json)
+				: [];
+			// Re-encoded per key: encrypted values are bound to their row
+			const value = keys.length
+				? this.values.decode(
+						message.value,
+						message.value_encoding,
+						QUEUE_MESSAGE_AAD,
+					)
+				: null;
+			const giveUp = this.db.transaction(() => {
+				const now = Date.now();
+				const version = this.nextVersionstamp();
+				const changes: KvChange[] = [];
+				for (const key of keys) {
+					const pk = encodeKey(key);
+					const { data, encoding } = this.values.encode(value, pk);
+					changes.push({ key, pk, type: "set", version });
+					this.db.prepare(SQL.UPSERT).run({
+						$pk: pk,
+						$value: data,
+						$value_encoding: encoding,
+						$version: version,
+						$now: now,
+						$date_expired: null,
+					});
+				}
+				this.db.run(SQL.DELETE_QUEUE_MESSAGE, [message.id]);
+				this.logChanges(changes);
+				return changes;
+			});
+			this.publishChanges(giveUp());
+		} catch (error) {
+			// A busy database clears up and the lease redelivers the message; any
+			// other failure would repeat, so drop it instead of retrying forever
+			const busy =
+				error instanceof SQLiteError && error.code?.startsWith("SQLITE_BUSY");
+			if (!busy) this.db.run(SQL.DELETE_QUEUE_MESSAGE, [message.id]);
+			throw error;
+		}
+	}
+
+	/**
+	 * Resolves after `ms`, or earlier when a message is enqueued or the store closes.
+	 */
+	private waitForQueue(ms: number): Promise<void> {
+		return new Promise((resolve) => {
+			const done = () => {
+				clearTimeout(timer);
+				this.events.off("queue", done);
+				resolve();
+			};
+			const timer = setTimeout(done, ms);
+			this.events.on("queue", done);
+		});
+	}
+
+	/**
+	 * Encoded lower (inclusive) and upper (exclusive) bounds of a selector.
+	 * Mirrors the conditions `list` applies: every bound must hold.
+	 */
+	private selectorBounds(selector: KvListSelector): {
+		lower: Uint8Array[];
+		upper: Uint8Array[];
+	} {
+		const lower: Uint8Array[] = [];
+		const upper: Uint8Array[] = [];
+		if (selector.prefix?.length) {
+			const start = encodeKey(selector.prefix);
+			lower.push(start);
+			upper.push(this.incrementBytes(start));
+		}
+		if (selector.start) lower.push(encodeKey(selector.start));
+		if (selector.end) upper.push(encodeKey(selector.end));
+		return { lower, upper };
+	}
+
+	/**
+	 * Evaluates a range check inside the commit's transaction.
+	 * Writes and deletes are found in the change log, which must still hold
+	 * every change made after `version`.
+	 * @returns Why the check failed, or null if it holds
+	 */
+	private findRangeChange(
+		selector: KvListSelector,
+		version: string | null,
+		now: number,
+	): { message: string; key: KvKey; actual: string | null } | null {
+		const { conditions, params } = this.rangeConditions("pk", selector);
+		if (version === null) {
+			conditions.push("(date_expired IS NULL OR date_expired >= ?)");
+			params.push(now);
+			const row = this.db
+				.query(
+					`${SQL.SELECT_RANGE_CHECK_BASE} WHERE ${conditions.join(" AND ")} ORDER BY pk LIMIT 1`,
+				)
+				.get(...params) as { pk: Uint8Array; version: string } | null;
+			return row
+				? {
+						message: KvErrors.ERROR_RANGE_CHECK_NOT_EMPTY,
+						key: decodeKey(row.pk),
+						actual: row.version,
+					}
+				: null;
+		}
+
+		const trimmed = formatVersionstamp(this.readMeta(TRIMMED_VERSION_META_KEY));
+		if (trimmed > version) {
+			return {
+				message: KvErrors.ERROR_RANGE_CHECK_TRIMMED,
+				key: selector.prefix ?? selector.start ?? [],
+				actual: null,
+			};
+		}
+		conditions.push("version > ?");
+		params.push(version);
+		const change = this.db
+			.query(
+				`${SQL.SELECT_RANGE_CHANGE_BASE} WHERE ${conditions.join(" AND ")} ORDER BY seq LIMIT 1`,
+			)
+			.get(...params) as { pk: Uint8Array } | null;
+		if (!change) return null;
+		const current = this.db.query(SQL.SELECT_META_CHECK).get(change.pk) as {
+			version: string;
+			date_expired: number | null;
+		} | null;
+		const live =
+			current && (current.date_expired === null || current.date_expired >= now);
+		return {
+			message: KvErrors.ERROR_RANGE_CHECK_CHANGED,
+			key: decodeKey(change.pk),
+			actual: live ? current.version : null,
+		};
+	}
+
+	/**
+	 * Picks the connection for a read: the writer for strong reads, a pooled
+	 * reader for eventual ones when the store has a reader pool.
+	 */
+	private connection(consistency: KvConsistencyLevel = "strong"): Database {
+		if (consistency === "eventual" && this.readers) {
+			return this.readers.next();
+		}
+		return this.db;
+	}
+
+	/**
+	 * Enforces the configured `limits` on one write, before any SQL runs.
+	 */
+	private checkWriteLimits(write: {
+		checks?: number;
+		mutations?: number;
+		keys: Uint8Array[];
+		/** Uncompressed value sizes, from `ValueSerializer.encode` */
+		valueSizes: number[];
+	}) {
+		const limits = this.limits;
+		checkLimit(limits, "maxChecks", write.checks ?? 0);
+		checkLimit(limits, "maxMutations", write.mutations ?? 0);
+		let total = 0;
+		for (const key of write.keys) {
+			checkLimit(limits, "maxKeySize", key.length);
+			total += key.length;
+		}
+		for (const size of write.valueSizes) {
+			checkLimit(limits, "maxValueSize", size);
+			total += size;
+		}
+		checkLimit(limits, "maxCommitSize", total);
+	}
+
+	private requireIndex(name: string) {
+		if (!this.indexes.has(name)) {
+			throw new KvNotFoundError(KvErrors.ERROR_INDEX_NOT_FOUND(name));
+		}
+	}
+
+	/**
+	 * Brings secondary indexes in line with committed changes.
+	 * Runs inside the write transaction, so a unique conflict rolls it back.
+	 */
+	private updateIndexes(changes: KvChange[]) {
+		if (this.indexes.size === 0) return;
+		const now = Date.now();
+		// Only the final state of each key matters
+		const latest = new Map<string, KvChange>();
+		for (const change of changes) latest.set(keyId(change.pk), change);
+		const decoded = new Map<KvChange, { value: unknown } | null>();
+		const current = (change: KvChange) => {
+			if (!decoded.has(change)) {
+				const row = this.db.query(SQL.SELECT_GET).get(change.pk) as {
+					value: StoredValue;
+					value_encoding: string | null;
+					date_expired: number | null;
+				} | null;
+				const live =
+					row && (row.date_expired === null || row.date_expired >= now);
+				decoded.set(
+					change,
+					live
+						? {
+								value: this.values.decode(
+									row.value,
+									row.value_encoding,
+									change.pk,
+								),
+							}
+						: null,
+				);
+			}
+			return decoded.get(change);
+		};
+
+		for (const index of this.indexes.values()) {
+			const covered = [...latest.values()].filter((c) => index.covers(c.pk));
+			// Remove old entries first, so values moving between keys in one
+			// commit are not reported as conflicts
+			for (const change of covered) {
+				this.db.run(SQL.DELETE_INDEX_ENTRIES, [index.name, change.pk]);
+			}
+			for (const change of covered) {
+				if (change.type !== "set") continue;
+				const entry = current(change);
+				if (!entry) continue;
+				const indexed = indexValueOf(index, change.key, entry.value);
+				if (indexed) this.insertIndexEntry(index, change.pk, indexed, now);
+			}
+		}
+	}
+
+	private insertIndexEntry(
+		index: IndexDefinition,
+		pk: Uint8Array,
+		value: Uint8Array,
+		now: number,
+	) {
+		if (index.unique) {
+			const conflict = this.db
+				.query(SQL.SELECT_INDEX_CONFLICT)
+				.get(index.name, value, pk, now);
+			if (conflict) {
+				throw new KvUniqueConflictError(index.name, decodeKey(pk));
+			}
+		}
+		this.db.run(SQL.INSERT_INDEX_ENTRY, [index.name, value, pk]);
+	}
+
+	/**
+	 * Builds SQL conditions restricting `column` to a selector's range.
+	 */
+	private rangeConditions(
+		column: string,
+		selector: KvListSelector,
+	): { conditions: string[]; params: (string | number | Uint8Array)[] } {
+		const { lower, upper } = this.selectorBounds(selector);
+		return {
+			conditions: [
+				...lower.map(() => `${column} >= ?`),
+				...upper.map(() => `${column} < ?`),
+			],
+			params: [...lower, ...upper],
+		};
+	}
+
+	/**
+	 * Returns a predicate telling whether an encoded key falls within a selector.
+	 */
+	private selectorMatcher(
+		selector: KvListSelector,
+	): (pk: Uint8Array) => boolean {
+		const { lower, upper } = this.selectorBounds(selector);
+		return (pk) =>
+			lower.every((b) => compareBytes(pk, b) >= 0) &&
+			upper.every((b) => compareBytes(pk, b) < 0);
+	}
+
+	/**
+	 * Increments a Uint8Array lexicographically.
+	 * This function treats the byte array as a number and increments it,
+	 * handling carries and overflow by extending the array.
+	 *
+	 * @param bytes The Uint8Array to increment. This array will not be mutated.
+	 * @returns A new Uint8Array representing the incremented bytes.
+	 */
+
+	private incrementBytes(bytes: Uint8Array): Uint8Array {
+		// Copy to avoid mutating input
+		const res = new Uint8Array(bytes);
+		// Increment starting from end
+		for (let i = res.length - 1; i >= 0; i--) {
+			const byte = res[i];
+			if (byte === undefined) continue;
+			if (byte < 0xff) {
+				res[i] = byte + 1;
+				return res;
+			}
+			res[i] = 0;
+		}
+		// Overflow (e.g. [255, 255])
+		return new Uint8Array([...res, 0]);
+	}
+
+	/**
+	 * Runs a watch delivery in its own span.
+	 * @param name Span name without the "bunkv." prefix
+	 * @param keyCount Number of keys read for the delivery
+	 * @param fn Reads the entries and enqueues them
+	 */
+	private async traceDelivery(
+		name: string,
+		keyCount: number,
+		fn: () => void | Promise<void>,
+	) {
+		const span = this.telemetry.startSpan(name, { "db.key_count": keyCount });
+		try {
+			await fn();
+		} catch (e: unknown) {
+			if (span) failSpan(span, e);
+			throw e;
+		} finally {
+			span?.end();
+		}
+	}
+
+	/**
+	 * Runs a public operation in a span, records its metrics and converts
+	 * SQLite errors.
+	 */
+	private async trace<R>(
+		name: string,
+		fn: (span: Span | null) => Promise<R>,
+	): Promise<R> {
+		const start = performance.now();
+		const tracer = this.telemetry.tracer;
+		if (!tracer) {
+			return fn(null).then(
+				(res) => {
+					this.telemetry.recordOperation(name, start);
+					return res;
+				},
+				(e: unknown) => {
+					const error = toKvError(e);
+					this.telemetry.recordOperation(name, start, error);
+					throw error;
+				},
+			);
+		}
+		return tracer.startActiveSpan(`bunkv.${name}`, async (span) => {
+			try {
+				const res = await fn(span);
+				this.telemetry.recordOperation(name, start);
+				return res;
+			} catch (e: unknown) {
+				const error = toKvError(e);
+				failSpan(span, error);
+				this.telemetry.recordOperation(name, start, error);
+				throw error;
 			} finally {
 				span.end();
 			}
@@ -0,0 +1,74 @@
+import {
+	KvErrors,
+	KvInvalidArgumentError,
+	KvLimitExceededError,
+} from "./error";
+import type { KvLimits, KvOptions } from "./types";
+
+/**
+ * Deno KV's documented limits. Sizes are in bytes.
+ */
+export const DENO_LIMITS: Readonly<Required<KvLimits>> = {
+	maxKeySize: 2048,
+	maxValueSize: 65_536,
+	maxChecks: 100,
+	maxMutations: 1000,
+	maxCommitSize: 819_200,
+};
+
+const UNLIMITED: Readonly<Required<KvLimits>> = {
+	maxKeySize: Number.POSITIVE_INFINITY,
+	maxValueSize: Number.POSITIVE_INFINITY,
+	maxChecks: Number.POSITIVE_INFINITY,
+	maxMutations: Number.POSITIVE_INFINITY,
+	maxCommitSize: Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Validates the `limits` option and fills in the unset limits.
+ *
+ * @param limits The `limits` option passed to `openKv`
+ * @returns Every limit; unset ones are infinite
+ */
+export function resolveLimits(limits: KvOptions["limits"]): Required<KvLimits> {
+	if (limits === "deno") return { ...DENO_LIMITS };
+	const resolved = { ...UNLIMITED };
+	for (const [name, max] of Object.entries(limits ?? {})) {
+		if (!(name in UNLIMITED)) continue;
+		if (max === undefined) continue;
+		if (!Number.isInteger(max) || max < 1) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_OPTION(`limits.${name}`, "a positive integer"),
+			);
+		}
+		resolved[name as keyof KvLimits] = max;
+	}
+	return resolved;
+}
+
+/**
+ * Throws if `size` exceeds the configured maximum.
+ *
+ * @param limits Resolved limits
+ * @param limit Which limit to check
+ * @param size The measured size or count
+ */
+export function checkLimit(
+	limits: Required<KvLimits>,
+	limit: keyof KvLimits,
+	size: number,
+) {
+	if (size > limits[limit]) {
+		throw new KvLimitExceededError(limit, size, limits[limit]);
+	}
+}
+
+/**
+ * Byte length of serialized value data.
+ *
+ * @param data Codec output, or a stored value
+ * @returns The size in bytes
+ */
+export function valueSize(data: string | Uint8Array): number {
+	return typeof data === "string" ? Buffer.byteLength(data) : data.length;
+}
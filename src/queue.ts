@@ -0,0 +1,85 @@
+import { decodeKey, encodeKey } from "./encoding";
+import { KvErrors, KvInvalidArgumentError } from "./error";
+import type { KvEnqueueOptions, KvKey } from "./types";
+import type { StoredValue } from "./value";
+
+/** Retry delays used when `backoffSchedule` is not given (Deno KV default). */
+export const DEFAULT_BACKOFF_SCHEDULE = [1000, 5000, 10000];
+
+/**
+ * How long a delivered message stays invisible to other listeners.
+ * If the process dies mid-delivery, the message is redelivered after this.
+ */
+export const QUEUE_LEASE_MS = 30_000;
+
+/** Upper bound between polls, so writes from other processes are picked up. */
+export const QUEUE_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Associated data that encrypted queue messages are bound to. Not a valid
+ * encoded key, so messages and rows cannot be swapped.
+ */
+export const QUEUE_MESSAGE_AAD = new TextEncoder().encode("bunkv:queue");
+
+const MAX_DELAY_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_BACKOFF_ATTEMPTS = 5;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+/**
+ * Row shape of the `queue` table.
+ */
+export interface QueueRow {
+	id: number;
+	value: StoredValue;
+	value_encoding: string | null;
+	attempts: number;
+	backoff_json: string | null;
+	keys_if_undelivered_json: string | null;
+}
+
+/**
+ * Validates enqueue options with the same bounds as Deno KV.
+ *
+ * @param options The options passed to `enqueue`
+ */
+export function validateEnqueueOptions(options?: KvEnqueueOptions) {
+	const delay = options?.delay ?? 0;
+	if (!Number.isFinite(delay) || delay < 0 || delay > MAX_DELAY_MS) {
+		throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_QUEUE_DELAY);
+	}
+	const schedule = options?.backoffSchedule;
+	if (schedule) {
+		if (schedule.length > MAX_BACKOFF_ATTEMPTS) {
+			throw new KvInvalidArgumentError(KvErrors.ERROR_INVALID_BACKOFF_SCHEDULE);
+		}
+		for (const ms of schedule) {
+			if (!Number.isFinite(ms) || ms < 0 || ms > MAX_BACKOFF_MS) {
+				throw new KvInvalidArgumentError(
+					KvErrors.ERROR_INVALID_BACKOFF_SCHEDULE,
+				);
+			}
+		}
+	}
+	for (const key of options?.keysIfUndelivered ?? []) {
+		encodeKey(key); // Throws on unsupported key parts
+	}
+}
+
+/**
+ * Serializes `keysIfUndelivered` using the binary key encoding, so bigint
+ * and Uint8Array parts survive the round trip.
+ */
+export function serializeKeys(keys: KvKey[]): string {
+	return JSON.stringify(
+		keys.map((key) => Buffer.from(encodeKey(key)).toString("base64")),
+	);
+}
+
+/**
+ * Inverse of `serializeKeys`.
+ */
+export function deserializeKeys(json: string): KvKey[] {
+	return (JSON.parse(json) as string[]).map((b64) =>
+		decodeKey(new Uint8Array(Buffer.from(b64, "base64"))),
+	);
+}
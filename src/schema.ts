@@ -0,0 +1,125 @@
+import { encodeKey } from "./encoding";
+import { KvErrors, KvInvalidArgumentError, KvValidationError } from "./error";
+import type { KvKey, KvSchemaDefinition, KvStandardSchema } from "./types";
+
+/**
+ * A validated `schemas` entry.
+ */
+export interface ResolvedSchema {
+	/** Encoded prefix; a key matches if its encoding starts with it */
+	prefix: Uint8Array;
+	schema: KvStandardSchema;
+	validateReads: boolean;
+}
+
+/**
+ * Validates the `schemas` option.
+ *
+ * @param schemas The `schemas` option passed to `openKv`
+ * @returns The schemas, longest prefix first
+ */
+export function resolveSchemaOptions(
+	schemas: readonly KvSchemaDefinition[] | undefined,
+): ResolvedSchema[] {
+	return (schemas ?? [])
+		.map((definition, i) => {
+			if (typeof definition?.schema?.["~standard"]?.validate !== "function") {
+				throw new KvInvalidArgumentError(
+					KvErrors.ERROR_INVALID_OPTION(
+						`schemas[${i}].schema`,
+						"a Standard Schema",
+					),
+				);
+			}
+			return {
+				prefix: encodeKey(definition.prefix),
+				schema: definition.schema,
+				validateReads: definition.validateReads ?? false,
+			};
+		})
+		.sort((a, b) => b.prefix.length - a.prefix.length);
+}
+
+/**
+ * Finds the schema of a key: the one with the longest matching prefix.
+ *
+ * @param schemas Resolved schemas, longest prefix first
+ * @param pk The encoded key
+ * @returns The schema, or null if no prefix matches
+ */
+export function schemaFor(
+	schemas: ResolvedSchema[],
+	pk: Uint8Array,
+): ResolvedSchema | null {
+	for (const entry of schemas) {
+		if (
+			entry.prefix.length <= pk.length &&
+			entry.prefix.every((byte, i) => pk[i] === byte)
+		) {
+			return entry;
+		}
+	}
+	return null;
+}
+
+/**
+ * Runs a schema's validator.
+ *
+ * @param schema The schema of `key`
+ * @param key The key the value is stored at
+ * @param value The value to validate
+ * @returns The validator's output, e.g. with defaults applied
+ */
+export async function validateValue(
+	schema: ResolvedSchema,
+	key: KvKey,
+	value: unknown,
+): Promise<unknown> {
+	const result = await schema.schema["~standard"].validate(value);
+	if (result.issues) throw new KvValidationError(key, result.issues);
+	return result.value;
+}
+
+/**
+ * Runs a schema's validator on a value computed inside a write transaction,
+ * such as a `sum`, `min` or `max` result, where awaiting is not possible.
+ *
+ * @param schema The schema of `key`
+ * @param key The key the value is stored at
+ * @param value The value to validate
+ * @param mutation The mutation that computed `value`, for the error message
+ * @returns The validator's output
+ */
+export function validateValueSync(
+	schema: ResolvedSchema,
+	key: KvKey,
+	value: unknown,
+	mutation: string,
+): unknown {
+	const result = schema.schema["~standard"].validate(value);
+	if (result instanceof Promise) {
+		result.catch(() => {}); // Not awaited; its outcome no longer matters
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_ASYNC_SCHEMA_IN_COMMIT(mutation),
+		);
+	}
+	if (result.issues) throw new KvValidationError(key, result.issues);
+	return result.value;
+}
+
+/**
+ * Whether a schema accepts its own output. Reads validate stored values,
+ * which are the output, so a schema that transforms its input (e.g. parses a
+ * string into a number) would reject every value it wrote.
+ *
+ * @param schema The schema that produced `output`
+ * @param output A value returned by `validateValue`
+ * @returns False if the schema rejects `output`
+ */
+export async function acceptsOwnOutput(
+	schema: ResolvedSchema,
+	output: unknown,
+): Promise<boolean> {
+	const result = await schema.schema["~standard"].validate(output);
+	return !result.issues;
+}
@@ -2,30 +2,196 @@ export const SQL = {
 	CREATE_TABLE: `
       CREATE TABLE IF NOT EXISTS kv (
         pk BLOB PRIMARY KEY,
-        key_json TEXT NOT NULL,
-        value_json TEXT,
+        value BLOB,
+        value_encoding TEXT,
         version TEXT NOT NULL,
         date_created INTEGER,
         date_updated INTEGER,
         date_expired INTEGER
       ) WITHOUT ROWID;
+    `,
+	CREATE_META_TABLE: `
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value INTEGER NOT NULL
+      ) WITHOUT ROWID;
+    `,
+	NEXT_VERSIONSTAMP: `
+      INSERT INTO meta (key, value) VALUES ('versionstamp', 1)
+      ON CONFLICT(key) DO UPDATE SET value = value + 1
+      RETURNING value
     `,
 	MIGRATE_ADD_VERSION: "ALTER TABLE kv ADD COLUMN version TEXT",
+	// Versions from before versionstamps, e.g. ULIDs; oldest first
+	SELECT_LEGACY_VERSIONS: `
+      SELECT pk FROM kv
+      WHERE version IS NULL OR version NOT GLOB '${"[0-9a-f]".repeat(20)}'
+      ORDER BY version, pk
+    `,
+	UPDATE_VERSION: "UPDATE kv SET version = ? WHERE pk = ?",
 	MIGRATE_ADD_DATE_CREATED: "ALTER TABLE kv ADD COLUMN date_created INTEGER",
 	MIGRATE_ADD_DATE_UPDATED: "ALTER TABLE kv ADD COLUMN date_updated INTEGER",
 	MIGRATE_ADD_DATE_EXPIRED: "ALTER TABLE kv ADD COLUMN date_expired INTEGER",
-	SELECT_GET: "SELECT value_json, version, date_expired FROM kv WHERE pk = ?",
+	// Keys are decoded from pk; the redundant JSON copy could not round-trip bigint/Uint8Array
+	MIGRATE_DROP_KEY_JSON: "ALTER TABLE kv DROP COLUMN key_json",
+	MIGRATE_ADD_VALUE_ENCODING: "ALTER TABLE kv ADD COLUMN value_encoding TEXT",
+	// Values are no longer always JSON; binary codecs store BLOBs
+	MIGRATE_RENAME_VALUE_JSON: "ALTER TABLE kv RENAME COLUMN value_json TO value",
+	MIGRATE_RENAME_QUEUE_VALUE_JSON:
+		"ALTER TABLE queue RENAME COLUMN value_json TO value",
+	SELECT_GET:
+		"SELECT value, value_encoding, version, date_expired FROM kv WHERE pk = ?",
+	SELECT_GET_MANY: (count: number) =>
+		`SELECT pk, value, value_encoding, version, date_expired FROM kv WHERE pk IN (${new Array(count).fill("?").join(", ")})`,
+	SELECT_EXPORT_BASE:
+		"SELECT pk, value, value_encoding, version, date_expired FROM kv",
 	SELECT_META_CHECK: "SELECT version, date_expired FROM kv WHERE pk = ?",
+	SELECT_RANGE_CHECK_BASE: "SELECT pk, version FROM kv",
 	UPSERT: `
-      INSERT INTO kv (pk, key_json, value_json, version, date_created, date_updated, date_expired)
-      VALUES ($pk, $key_json, $value_json, $version, $now, $now, $date_expired)
+      INSERT INTO kv (pk, value, value_encoding, version, date_created, date_updated, date_expired)
+      VALUES ($pk, $value, $value_encoding, $version, $now, $now, $date_expired)
       ON CONFLICT(pk) DO UPDATE SET
-        value_json = excluded.value_json,
+        value = excluded.value,
+        value_encoding = excluded.value_encoding,
         version = excluded.version,
         date_updated = excluded.date_updated,
         date_expired = excluded.date_expired
     `,
 	DELETE: "DELETE FROM kv WHERE pk = ?",
+	CREATE_EXPIRY_INDEX:
+		"CREATE INDEX IF NOT EXISTS kv_date_expired ON kv (date_expired) WHERE date_expired IS NOT NULL",
+	// ?2 is the encoding suffix of the current key; rows without it are stale
+	SELECT_REENCRYPT_BATCH: `
+      SELECT pk, value, value_encoding FROM kv
+      WHERE pk > ?1 AND (value_encoding IS NULL OR substr(value_encoding, -length(?2)) != ?2)
+      ORDER BY pk LIMIT ?3
+    `,
+	UPDATE_VALUE: "UPDATE kv SET value = ?, value_encoding = ? WHERE pk = ?",
+	DELETE_EXPIRED_BATCH: `
+      DELETE FROM kv WHERE pk IN (
+        SELECT pk FROM kv
+        WHERE date_expired IS NOT NULL AND date_expired < ?
+        ORDER BY date_expired LIMIT ?
+      )
+      RETURNING pk
+    `,
+	DELETE_EXPIRED:
+		"DELETE FROM kv WHERE pk = ? AND date_expired IS NOT NULL AND date_expired < ?",
 	SELECT_LIST_BASE:
-		"SELECT key_json, value_json, version, date_expired FROM kv",
+		"SELECT pk, value, value_encoding, version, date_expired FROM kv",
+	CREATE_QUEUE_TABLE: `
+      CREATE TABLE IF NOT EXISTS queue (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        value BLOB,
+        value_encoding TEXT,
+        ready_at INTEGER NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        backoff_json TEXT,
+        keys_if_undelivered_json TEXT,
+        date_created INTEGER
+      );
+    `,
+	CREATE_QUEUE_INDEX:
+		"CREATE INDEX IF NOT EXISTS queue_ready_at ON queue (ready_at)",
+	INSERT_QUEUE_MESSAGE: `
+      INSERT INTO queue (value, value_encoding, ready_at, backoff_json, keys_if_undelivered_json, date_created)
+      VALUES ($value, $value_encoding, $ready_at, $backoff_json, $keys_if_undelivered_json, $now)
+    `,
+	SELECT_QUEUE_READY:
+		"SELECT id, value, value_encoding, attempts, backoff_json, keys_if_undelivered_json FROM queue WHERE ready_at <= ? ORDER BY ready_at, id LIMIT 1",
+	SELECT_QUEUE_NEXT_READY: "SELECT MIN(ready_at) AS ready_at FROM queue",
+	CLAIM_QUEUE_MESSAGE:
+		"UPDATE queue SET ready_at = $ready_at, attempts = attempts + 1 WHERE id = $id",
+	RESCHEDULE_QUEUE_MESSAGE: "UPDATE queue SET ready_at = ? WHERE id = ?",
+	DELETE_QUEUE_MESSAGE: "DELETE FROM queue WHERE id = ?",
+	SELECT_QUEUE_REENCRYPT_BATCH: `
+      SELECT id, value, value_encoding FROM queue
+      WHERE id > ?1 AND (value_encoding IS NULL OR substr(value_encoding, -length(?2)) != ?2)
+      ORDER BY id LIMIT ?3
+    `,
+	UPDATE_QUEUE_VALUE:
+		"UPDATE queue SET value = ?, value_encoding = ? WHERE id = ?",
+	CREATE_CHANGES_TABLE: `
+      CREATE TABLE IF NOT EXISTS changes (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        pk BLOB NOT NULL,
+        type TEXT NOT NULL,
+        version TEXT,
+        origin TEXT NOT NULL,
+        date_created INTEGER NOT NULL
+      );
+    `,
+	CREATE_CHANGES_INDEX:
+		"CREATE INDEX IF NOT EXISTS changes_date_created ON changes (date_created)",
+	CREATE_CHANGES_VERSION_INDEX:
+		"CREATE INDEX IF NOT EXISTS changes_version ON changes (version)",
+	CREATE_INDEX_TABLE: `
+      CREATE TABLE IF NOT EXISTS kv_index (
+        name TEXT NOT NULL,
+        value BLOB NOT NULL,
+        pk BLOB NOT NULL,
+        PRIMARY KEY (name, value, pk)
+      ) WITHOUT ROWID;
+    `,
+	CREATE_INDEX_PK_INDEX:
+		"CREATE INDEX IF NOT EXISTS kv_index_pk ON kv_index (name, pk)",
+	INSERT_INDEX_ENTRY:
+		"INSERT OR IGNORE INTO kv_index (name, value, pk) VALUES (?, ?, ?)",
+	DELETE_INDEX_ENTRIES: "DELETE FROM kv_index WHERE name = ? AND pk = ?",
+	DELETE_INDEX: "DELETE FROM kv_index WHERE name = ?",
+	DELETE_ALL_INDEXES: "DELETE FROM kv_index",
+	SELECT_INDEX_CONFLICT: `
+      SELECT i.pk FROM kv_index i JOIN kv ON kv.pk = i.pk
+      WHERE i.name = ? AND i.value = ? AND i.pk != ?
+        AND (kv.date_expired IS NULL OR kv.date_expired >= ?)
+      LIMIT 1
+    `,
+	SELECT_INDEX_LOOKUP: `
+      SELECT kv.pk, kv.value, kv.value_encoding, kv.version, kv.date_expired
+      FROM kv_index i JOIN kv ON kv.pk = i.pk
+      WHERE i.name = ? AND i.value = ?
+        AND (kv.date_expired IS NULL OR kv.date_expired >= ?)
+      ORDER BY i.pk
+    `,
+	SELECT_INDEX_BASE: `
+      SELECT kv.pk, kv.value, kv.value_encoding, kv.version, kv.date_expired
+      FROM kv_index i JOIN kv ON kv.pk = i.pk
+    `,
+	INSERT_CHANGE: `
+      INSERT INTO changes (pk, type, version, origin, date_created)
+      VALUES ($pk, $type, $version, $origin, $now)
+    `,
+	SELECT_CHANGES_SINCE:
+		"SELECT seq, pk, type, version, origin FROM changes WHERE seq > ? ORDER BY seq",
+	SELECT_LAST_CHANGE_SEQ: "SELECT MAX(seq) AS seq FROM changes",
+	SELECT_RANGE_CHANGE_BASE: "SELECT pk FROM changes",
+	SELECT_MAX_CHANGE_VERSION_UP_TO:
+		"SELECT MAX(version) AS version FROM changes WHERE seq <= ?",
+	SELECT_MIN_CHANGE_VERSION: "SELECT MIN(version) AS version FROM changes",
+	// Deletes and expiries were logged without a version before every change had one
+	STAMP_UNVERSIONED_CHANGES: `
+      UPDATE changes SET version = ?
+      WHERE version IS NULL OR version NOT GLOB '${"[0-9a-f]".repeat(20)}'
+    `,
+	SELECT_CHANGE_FEED:
+		"SELECT seq, pk, type, version, origin FROM changes WHERE seq > ? ORDER BY seq LIMIT ?",
+	SELECT_CHANGE_SEQ_BEFORE:
+		"SELECT MAX(seq) AS seq FROM changes WHERE date_created < ?",
+	TRIM_CHANGES: "DELETE FROM changes WHERE seq <= ?",
+	SELECT_META: "SELECT value FROM meta WHERE key = ?",
+	UPSERT_META: `
+      INSERT INTO meta (key, value) VALUES (?, ?)
+      ON CONFLICT(key) DO UPDATE SET value = excluded.value
+    `,
+	DATA_VERSION: "PRAGMA data_version",
+	// PRAGMA values cannot be bound; callers pass validated values only
+	SET_JOURNAL_MODE: (mode: string) => `PRAGMA journal_mode = ${mode}`,
+	SET_SYNCHRONOUS: (mode: string) => `PRAGMA synchronous = ${mode}`,
+	SET_BUSY_TIMEOUT: (ms: number) => `PRAGMA busy_timeout = ${ms}`,
+	SET_CACHE_SIZE: (size: number) => `PRAGMA cache_size = ${size}`,
+	SET_MMAP_SIZE: (bytes: number) => `PRAGMA mmap_size = ${bytes}`,
+	VACUUM_INTO: "VACUUM INTO ?",
+	INTEGRITY_CHECK: "PRAGMA integrity_check",
+	SELECT_KV_TABLE:
+		"SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'kv'",
 };
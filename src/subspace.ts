@@ -0,0 +1,264 @@
+import { encodeKey } from "./encoding";
+import { KvErrors, KvInvalidArgumentError } from "./error";
+import type { BunKV } from "./kv";
+import type {
+	KvCommitResult,
+	KvEnqueueOptions,
+	KvEntry,
+	KvEntryMaybe,
+	KvGetOptions,
+	KvKey,
+	KvListIterator,
+	KvListOptions,
+	KvListSelector,
+	KvMutation,
+	KvSetOptions,
+} from "./types";
+
+/**
+ * An atomic operation created by `BunKV.atomic()`.
+ */
+export type KvAtomicOperation = ReturnType<BunKV["atomic"]>;
+
+/**
+ * An atomic operation whose keys are relative to a subspace.
+ * Keys reported in a failed commit's `error` are absolute.
+ */
+export interface KvSubspaceAtomicOperation {
+	check(key: KvKey, version: string | null): KvSubspaceAtomicOperation;
+	checkRange(
+		selector: KvListSelector,
+		version: string | null,
+	): KvSubspaceAtomicOperation;
+	mutate(...mutations: KvMutation[]): KvSubspaceAtomicOperation;
+	set(
+		key: KvKey,
+		value: unknown,
+		options?: KvSetOptions,
+	): KvSubspaceAtomicOperation;
+	delete(key: KvKey): KvSubspaceAtomicOperation;
+	sum(key: KvKey, n: bigint): KvSubspaceAtomicOperation;
+	min(key: KvKey, n: bigint): KvSubspaceAtomicOperation;
+	max(key: KvKey, n: bigint): KvSubspaceAtomicOperation;
+	enqueue(
+		value: unknown,
+		options?: KvEnqueueOptions,
+	): KvSubspaceAtomicOperation;
+	/**
+	 * The same operation, with keys relative to another subspace of the same
+	 * store. Everything added through either view commits together.
+	 */
+	with(subspace: KvSubspace): KvSubspaceAtomicOperation;
+	commit(): Promise<KvCommitResult>;
+}
+
+/**
+ * A view of a store where every key is relative to a prefix.
+ * Keys passed in are prefixed; keys returned have the prefix removed.
+ */
+export class KvSubspace {
+	/**
+	 * @param kv The store
+	 * @param prefix Absolute prefix of every key in the subspace
+	 */
+	constructor(
+		readonly kv: BunKV,
+		readonly prefix: KvKey,
+	) {
+		// Fail on invalid key parts now rather than on first use
+		encodeKey(prefix);
+	}
+
+	/**
+	 * A subspace nested in this one.
+	 * @param prefix Prefix relative to this subspace
+	 */
+	subspace(prefix: KvKey): KvSubspace {
+		return new KvSubspace(this.kv, this.absolute(prefix));
+	}
+
+	/**
+	 * Retrieve a value from the subspace.
+	 * @param key Key relative to the subspace
+	 * @param options Read options (consistency)
+	 */
+	async get<T = unknown>(
+		key: KvKey,
+		options?: KvGetOptions,
+	): Promise<KvEntryMaybe<T>> {
+		const entry = await this.kv.get<T>(this.absolute(key), options);
+		return { ...entry, key } as KvEntryMaybe<T>;
+	}
+
+	/**
+	 * Retrieve multiple values from the same snapshot.
+	 * @param keys Keys relative to the subspace
+	 * @param options Read options (consistency)
+	 */
+	async getMany<T = unknown>(
+		keys: KvKey[],
+		options?: KvGetOptions,
+	): Promise<KvEntryMaybe<T>[]> {
+		const entries = await this.kv.getMany<T>(
+			keys.map((key) => this.absolute(key)),
+			options,
+		);
+		return entries.map(
+			(entry, i) => ({ ...entry, key: keys[i] as KvKey }) as KvEntryMaybe<T>,
+		);
+	}
+
+	/**
+	 * Set a value in the subspace.
+	 * @param key Key relative to the subspace
+	 * @param value The value to store
+	 * @param options Optional settings like expiration (TTL)
+	 */
+	set(
+		key: KvKey,
+		value: unknown,
+		options?: KvSetOptions,
+	): Promise<KvCommitResult> {
+		return this.kv.set(this.absolute(key), value, options);
+	}
+
+	/**
+	 * Delete a key from the subspace.
+	 * @param key Key relative to the subspace
+	 */
+	delete(key: KvKey): Promise<void> {
+		return this.kv.delete(this.absolute(key));
+	}
+
+	/**
+	 * List entries of the subspace. An empty selector lists all of them.
+	 * @param selector Prefix and range relative to the subspace
+	 * @param options Pagination and read options, as for `BunKV.list`
+	 */
+	list<T = unknown>(
+		selector: KvListSelector = {},
+		options?: KvListOptions,
+	): KvListIterator<T> {
+		const inner = this.kv.list<T>(
+			scopeSelector(this, selector),
+			options,
+		) as KvListIterator<T>;
+		const strip = this.prefix.length;
+		// Delegating with for await forwards an early return() to the inner
+		// listing, so its statement and span are finished too
+		async function* gen(): AsyncGenerator<KvEntry<T>> {
+			for await (const entry of inner) {
+				yield { ...entry, key: entry.key.slice(strip) };
+			}
+		}
+		const result = gen();
+		Object.defineProperty(result, "cursor", {
+			get: () => inner.cursor,
+		});
+		return result as typeof result & { readonly cursor: string };
+	}
+
+	/**
+	 * Watch keys of the subspace, as `BunKV.watch`.
+	 * @param keys Keys relative to the subspace
+	 */
+	watch<T = unknown>(keys: KvKey[]): ReadableStream<KvEntryMaybe<T>[]> {
+		return this.kv.watch<T>(keys.map((key) => this.absolute(key))).pipeThrough(
+			new TransformStream<KvEntryMaybe<T>[], KvEntryMaybe<T>[]>({
+				transform(entries, controller) {
+					controller.enqueue(
+						entries.map((entry, i) => ({ ...entry, key: keys[i] as KvKey })),
+					);
+				},
+			}),
+		);
+	}
+
+	/**
+	 * Begin an atomic operation with keys relative to this subspace.
+	 * Use `with(other)` on it to add operations in other subspaces of the
+	 * same store to the same commit.
+	 */
+	atomic(): KvSubspaceAtomicOperation {
+		return scopedAtomic(this, this.kv.atomic());
+	}
+
+	/**
+	 * @param key Key relative to the subspace
+	 * @returns The absolute key
+	 */
+	absolute(key: KvKey): KvKey {
+		return [...this.prefix, ...key];
+	}
+}
+
+function scopeSelector(
+	subspace: KvSubspace,
+	selector: KvListSelector,
+): KvListSelector {
+	return {
+		prefix: subspace.absolute(selector.prefix ?? []),
+		start: selector.start && subspace.absolute(selector.start),
+		end: selector.end && subspace.absolute(selector.end),
+	};
+}
+
+function scopedAtomic(
+	subspace: KvSubspace,
+	op: KvAtomicOperation,
+): KvSubspaceAtomicOperation {
+	const abs = (key: KvKey) => subspace.absolute(key);
+	return {
+		check(key, version) {
+			op.check(abs(key), version);
+			return this;
+		},
+		checkRange(selector, version) {
+			op.checkRange(scopeSelector(subspace, selector), version);
+			return this;
+		},
+		mutate(...mutations) {
+			op.mutate(...mutations.map((m) => ({ ...m, key: abs(m.key) })));
+			return this;
+		},
+		set(key, value, options) {
+			op.set(abs(key), value, options);
+			return this;
+		},
+		delete(key) {
+			op.delete(abs(key));
+			return this;
+		},
+		sum(key, n) {
+			op.sum(abs(key), n);
+			return this;
+		},
+		min(key, n) {
+			op.min(abs(key), n);
+			return this;
+		},
+		max(key, n) {
+			op.max(abs(key), n);
+			return this;
+		},
+		enqueue(value, options) {
+			op.enqueue(
+				value,
+				options && {
+					...options,
+					keysIfUndelivered: options.keysIfUndelivered?.map(abs),
+				},
+			);
+			return this;
+		},
+		with(other) {
+			if (other.kv !== subspace.kv) {
+				throw new KvInvalidArgumentError(KvErrors.ERROR_SUBSPACE_OTHER_STORE);
+			}
+			return scopedAtomic(other, op);
+		},
+		commit() {
+			return op.commit();
+		},
+	};
+}
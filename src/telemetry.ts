@@ -0,0 +1,189 @@
+import fs from "node:fs";
+import {
+	type Attributes,
+	type Counter,
+	type Histogram,
+	type Meter,
+	metrics,
+	type ObservableCallback,
+	type ObservableGauge,
+	type Span,
+	SpanStatusCode,
+	type Tracer,
+	trace,
+	type UpDownCounter,
+} from "@opentelemetry/api";
+import type { KvKey, KvTelemetryOptions } from "./types";
+
+/** Instrumentation scope of every span and metric. */
+const SCOPE = "bunkv";
+
+/**
+ * Spans and metrics of one store. Every method is a no-op for what is
+ * turned off, so call sites need no checks.
+ */
+export class Telemetry {
+	readonly tracer: Tracer | null;
+	private meter: Meter | null;
+	private operations?: Counter;
+	private duration?: Histogram;
+	private commits?: Counter;
+	private watchers?: UpDownCounter;
+	private listRows?: Histogram;
+	private fileSize?: ObservableGauge;
+	private observeFiles?: ObservableCallback;
+
+	/**
+	 * @param options The `telemetry` option passed to `openKv`
+	 * @param path Database file whose size is reported, or null for ":memory:"
+	 */
+	constructor(options: KvTelemetryOptions | undefined, path: string | null) {
+		// Without options, OTEL_BUN=true turns everything on
+		const fromEnv = process.env.OTEL_BUN === "true";
+		const tracing = options ? options.tracing : fromEnv;
+		const meters = options ? options.metrics : fromEnv;
+		this.tracer =
+			typeof tracing === "object"
+				? tracing.getTracer(SCOPE)
+				: tracing
+					? trace.getTracer(SCOPE)
+					: null;
+		this.meter =
+			typeof meters === "object"
+				? meters.getMeter(SCOPE)
+				: meters
+					? metrics.getMeter(SCOPE)
+					: null;
+		if (!this.meter) return;
+
+		this.operations = this.meter.createCounter("bunkv.operations", {
+			description: "Store operations, by name and error type",
+		});
+		this.duration = this.meter.createHistogram("bunkv.operation.duration", {
+			description: "Duration of store operations",
+			unit: "ms",
+		});
+		this.commits = this.meter.createCounter("bunkv.atomic.commits", {
+			description: "Atomic commits, by outcome",
+		});
+		this.watchers = this.meter.createUpDownCounter("bunkv.watchers.active", {
+			description: "Open watch streams",
+		});
+		this.listRows = this.meter.createHistogram("bunkv.list.rows_scanned", {
+			description: "Rows read from SQLite per list iteration",
+		});
+		if (path === null) return;
+		this.fileSize = this.meter.createObservableGauge("bunkv.file.size", {
+			description: "Size of the database and WAL files",
+			unit: "By",
+		});
+		this.observeFiles = (result) => {
+			for (const [file, suffix] of [
+				["db", ""],
+				["wal", "-wal"],
+			] as const) {
+				try {
+					result.observe(fs.statSync(path + suffix).size, {
+						"bunkv.file": file,
+					});
+				} catch {
+					// The WAL file only exists while the database is open in WAL mode
+				}
+			}
+		};
+		this.fileSize.addCallback(this.observeFiles);
+	}
+
+	/**
+	 * Counts a finished operation and records its duration.
+	 * @param name Operation name, e.g. "get"
+	 * @param start `performance.now()` when it started
+	 * @param error What it threw, if it failed
+	 */
+	recordOperation(name: string, start: number, error?: unknown) {
+		if (!this.meter) return;
+		const attributes: Attributes = { "db.operation.name": name };
+		if (error !== undefined) {
+			attributes["error.type"] =
+				error instanceof Error ? error.name : "unknown";
+		}
+		this.operations?.add(1, attributes);
+		this.duration?.record(performance.now() - start, attributes);
+	}
+
+	/**
+	 * Counts an atomic commit.
+	 * @param outcome "committed", or the code of the error that failed it
+	 */
+	recordCommit(outcome: string) {
+		this.commits?.add(1, { "bunkv.commit.outcome": outcome });
+	}
+
+	/**
+	 * Tracks an opened watch stream.
+	 * @param kind "keys" for `watch`, "prefix" for `watchPrefix`
+	 * @returns Call when the stream is cancelled
+	 */
+	watcherOpened(kind: "keys" | "prefix"): () => void {
+		const attributes = { "bunkv.watch.kind": kind };
+		this.watchers?.add(1, attributes);
+		let open = true;
+		return () => {
+			if (open) this.watchers?.add(-1, attributes);
+			open = false;
+		};
+	}
+
+	/**
+	 * Records the rows a list iteration read.
+	 * @param rows Rows read, including expired ones that were skipped
+	 */
+	recordListRows(rows: number) {
+		this.listRows?.record(rows);
+	}
+
+	/**
+	 * Starts a span that is not made active, for work spanning callbacks.
+	 * @param name Span name without the "bunkv." prefix
+	 * @param attributes Initial attributes
+	 * @returns The span, or null when tracing is off
+	 */
+	startSpan(name: string, attributes?: Attributes): Span | null {
+		return this.tracer?.startSpan(`${SCOPE}.${name}`, { attributes }) ?? null;
+	}
+
+	/**
+	 * Stops reporting file sizes.
+	 */
+	close() {
+		if (this.observeFiles) this.fileSize?.removeCallback(this.observeFiles);
+	}
+}
+
+/**
+ * Marks a span as failed.
+ * @param span The span
+ * @param error What was thrown
+ */
+export function failSpan(span: Span, error: unknown) {
+	if (error instanceof Error) span.recordException(error);
+	span.setStatus({ code: SpanStatusCode.ERROR });
+}
+
+/**
+ * Formats a key for a span attribute. Unlike `JSON.stringify`, it handles
+ * bigint and Uint8Array parts.
+ *
+ * @param key The key
+ * @returns e.g. `["users",42,7n,0x0aff,true]`
+ */
+export function keyAttribute(key: KvKey): string {
+	const parts = key.map((part) => {
+		if (typeof part === "bigint") return `${part}n`;
+		if (part instanceof Uint8Array) {
+			return `0x${Buffer.from(part).toString("hex")}`;
+		}
+		return JSON.stringify(part);
+	});
+	return `[${parts.join(",")}]`;
+}
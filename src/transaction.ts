@@ -0,0 +1,58 @@
+import { KvErrors, KvInvalidArgumentError } from "./error";
+import type { KvTransactionOptions } from "./types";
+
+/** Retries after the first attempt when `maxRetries` is not given. */
+export const DEFAULT_TRANSACTION_RETRIES = 5;
+/** Delay before the first retry when `initialBackoff` is not given. */
+export const DEFAULT_INITIAL_BACKOFF_MS = 10;
+/** Longest delay between retries when `maxBackoff` is not given. */
+export const DEFAULT_MAX_BACKOFF_MS = 1000;
+
+/**
+ * Validates transaction options and fills in the defaults.
+ *
+ * @param options Options passed to `transaction`
+ * @returns Every option
+ */
+export function resolveTransactionOptions(
+	options: KvTransactionOptions = {},
+): Required<KvTransactionOptions> {
+	const maxRetries = options.maxRetries ?? DEFAULT_TRANSACTION_RETRIES;
+	if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+		throw new KvInvalidArgumentError(
+			KvErrors.ERROR_INVALID_OPTION("maxRetries", "a non-negative integer"),
+		);
+	}
+	const initialBackoff = options.initialBackoff ?? DEFAULT_INITIAL_BACKOFF_MS;
+	const maxBackoff = options.maxBackoff ?? DEFAULT_MAX_BACKOFF_MS;
+	for (const [name, ms] of [
+		["initialBackoff", initialBackoff],
+		["maxBackoff", maxBackoff],
+	] as const) {
+		if (!Number.isFinite(ms) || ms < 0) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_OPTION(name, "a non-negative number"),
+			);
+		}
+	}
+	return { maxRetries, initialBackoff, maxBackoff };
+}
+
+/**
+ * Delay before a retry: exponential backoff with jitter, so transactions
+ * that conflicted with each other do not retry in lockstep.
+ *
+ * @param retry 0 for the first retry
+ * @param options Resolved transaction options
+ * @returns Milliseconds to wait
+ */
+export function retryDelay(
+	retry: number,
+	options: Required<KvTransactionOptions>,
+): number {
+	const ceiling = Math.min(
+		options.maxBackoff,
+		options.initialBackoff * 2 ** retry,
+	);
+	return ceiling / 2 + Math.random() * (ceiling / 2);
+}
@@ -0,0 +1,295 @@
+import { decodeKey, encodeKey } from "./encoding";
+import {
+	KvErrors,
+	KvImportError,
+	KvInvalidKeyError,
+	KvInvalidValueError,
+} from "./error";
+import type { KvKey, KvKeyPart } from "./types";
+import { KvU64 } from "./u64";
+import type { StoredValue, ValueSerializer } from "./value";
+
+/** Rows read per query by `export()`. */
+export const EXPORT_BATCH_SIZE = 500;
+/** Entries written per transaction by `import()` when `batchSize` is not given. */
+export const DEFAULT_IMPORT_BATCH_SIZE = 1000;
+
+/**
+ * A key part in the export format. Types are explicit so `bigint` and
+ * `Uint8Array` parts, and numbers JSON cannot represent, round-trip exactly.
+ */
+type ExportedKeyPart =
+	| { type: "string"; value: string }
+	| { type: "number"; value: number | string }
+	| { type: "bigint"; value: string }
+	| { type: "boolean"; value: boolean }
+	| { type: "bytes"; value: string };
+
+/**
+ * A value in the export format, tagged like key parts. Values are exported
+ * decoded, so an export does not depend on the codec, compression or
+ * encryption keys of the store that wrote it.
+ */
+type ExportedValue =
+	| ExportedKeyPart
+	| { type: "null" }
+	| { type: "undefined" }
+	| { type: "u64"; value: string }
+	| { type: "date"; value: string }
+	| { type: "regexp"; value: string; flags: string }
+	| { type: "array"; value: ExportedValue[] }
+	| { type: "set"; value: ExportedValue[] }
+	| { type: "map"; value: [ExportedValue, ExportedValue][] }
+	| { type: "object"; value: { [name: string]: ExportedValue } };
+
+/**
+ * One NDJSON line of an export.
+ */
+interface ExportLine {
+	key: ExportedKeyPart[];
+	value: ExportedValue;
+	version: string;
+	expireAt: number | null;
+}
+
+/**
+ * A decoded export line, ready to be written.
+ */
+export interface ImportEntry {
+	key: KvKey;
+	pk: Uint8Array;
+	value: unknown;
+	expireAt: number | null;
+}
+
+/**
+ * Row shape read by `export()`.
+ */
+export interface ExportRow {
+	pk: Uint8Array;
+	value: StoredValue;
+	value_encoding: string | null;
+	version: string;
+	date_expired: number | null;
+}
+
+/**
+ * Serializes a stored row as one NDJSON line, including the trailing newline.
+ *
+ * @param row The row to export
+ * @param values Serializer that decodes the row's value
+ * @returns The line
+ */
+export function encodeExportLine(
+	row: ExportRow,
+	values: ValueSerializer,
+): string {
+	const key = decodeKey(row.pk);
+	const line: ExportLine = {
+		key: key.map(exportKeyPart),
+		value: exportValue(
+			values.decode(row.value, row.value_encoding, row.pk),
+			new Set(),
+		),
+		version: row.version,
+		expireAt: row.date_expired,
+	};
+	return `${JSON.stringify(line)}\n`;
+}
+
+/**
+ * Parses one NDJSON line written by `encodeExportLine`.
+ *
+ * @param text The line, without its newline
+ * @param lineNumber 1-based line number, for error messages
+ * @returns The entry to import
+ */
+export function decodeExportLine(
+	text: string,
+	lineNumber: number,
+): ImportEntry {
+	try {
+		const line = JSON.parse(text) as ExportLine;
+		if (
+			!Array.isArray(line.key) ||
+			typeof line.value !== "object" ||
+			line.value === null
+		) {
+			throw new Error();
+		}
+		const key = line.key.map(importKeyPart);
+		const expireAt = line.expireAt ?? null;
+		if (expireAt !== null && typeof expireAt !== "number") {
+			throw new Error();
+		}
+		return {
+			key,
+			pk: encodeKey(key),
+			value: importValue(line.value),
+			expireAt,
+		};
+	} catch {
+		throw new KvImportError(
+			KvErrors.ERROR_INVALID_IMPORT_LINE(lineNumber),
+			lineNumber,
+		);
+	}
+}
+
+/**
+ * Splits a stream of text or bytes into lines, skipping blank ones.
+ *
+ * @param source The NDJSON input
+ * @returns The lines with their 1-based line numbers
+ */
+export async function* readLines(
+	source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+): AsyncGenerator<{ text: string; lineNumber: number }> {
+	const decoder = new TextDecoder();
+	let buffered = "";
+	let lineNumber = 0;
+	for await (const chunk of source) {
+		buffered +=
+			typeof chunk === "string"
+				? chunk
+				: decoder.decode(chunk, { stream: true });
+		let newline = buffered.indexOf("\n");
+		while (newline !== -1) {
+			const text = buffered.slice(0, newline).trim();
+			buffered = buffered.slice(newline + 1);
+			lineNumber++;
+			if (text) yield { text, lineNumber };
+			newline = buffered.indexOf("\n");
+		}
+	}
+	const rest = (buffered + decoder.decode()).trim();
+	lineNumber++;
+	if (rest) yield { text: rest, lineNumber };
+}
+
+function exportKeyPart(part: KvKeyPart): ExportedKeyPart {
+	if (typeof part === "string") return { type: "string", value: part };
+	if (typeof part === "boolean") return { type: "boolean", value: part };
+	if (typeof part === "bigint") return { type: "bigint", value: String(part) };
+	if (typeof part === "number") {
+		// JSON has no NaN, Infinity or -0
+		if (Object.is(part, -0)) return { type: "number", value: "-0" };
+		return {
+			type: "number",
+			value: Number.isFinite(part) ? part : String(part),
+		};
+	}
+	return { type: "bytes", value: Buffer.from(part).toString("base64") };
+}
+
+function importKeyPart(part: ExportedKeyPart): KvKeyPart {
+	const { type, value } = part;
+	if (type === "string" && typeof value === "string") return value;
+	if (type === "boolean" && typeof value === "boolean") return value;
+	if (type === "bigint" && typeof value === "string") return BigInt(value);
+	if (type === "bytes" && typeof value === "string") {
+		return new Uint8Array(Buffer.from(value, "base64"));
+	}
+	if (type === "number" && typeof value === "number") return value;
+	if (type === "number" && typeof value === "string") {
+		return value === "-0" ? -0 : Number(value);
+	}
+	throw new KvInvalidKeyError(KvErrors.ERROR_INVALID_ENCODED_KEY);
+}
+
+function exportValue(value: unknown, ancestors: Set<object>): ExportedValue {
+	if (value === null) return { type: "null" };
+	if (value === undefined) return { type: "undefined" };
+	if (typeof value !== "object") {
+		if (["string", "number", "bigint", "boolean"].includes(typeof value)) {
+			return exportKeyPart(value as KvKeyPart);
+		}
+		throw unexportable(typeof value);
+	}
+	if (value instanceof KvU64) {
+		return { type: "u64", value: String(value.value) };
+	}
+	if (value instanceof Uint8Array && value.constructor === Uint8Array) {
+		return exportKeyPart(value);
+	}
+	if (value instanceof Date) {
+		const time = value.getTime();
+		return {
+			type: "date",
+			value: Number.isNaN(time) ? "Invalid Date" : value.toISOString(),
+		};
+	}
+	if (value instanceof RegExp) {
+		return { type: "regexp", value: value.source, flags: value.flags };
+	}
+	// Shared references are exported once per use; cycles cannot be
+	if (ancestors.has(value)) throw unexportable("circular reference");
+	ancestors.add(value);
+	let exported: ExportedValue;
+	if (Array.isArray(value)) {
+		exported = {
+			type: "array",
+			value: Array.from(value, (item) => exportValue(item, ancestors)),
+		};
+	} else if (value instanceof Set) {
+		exported = {
+			type: "set",
+			value: [...value].map((item) => exportValue(item, ancestors)),
+		};
+	} else if (value instanceof Map) {
+		exported = {
+			type: "map",
+			value: [...value].map(([k, v]) => [
+				exportValue(k, ancestors),
+				exportValue(v, ancestors),
+			]),
+		};
+	} else {
+		const proto = Object.getPrototypeOf(value);
+		if (proto !== Object.prototype && proto !== null) {
+			throw unexportable(value.constructor?.name ?? "object");
+		}
+		exported = {
+			type: "object",
+			value: Object.fromEntries(
+				Object.entries(value).map(([k, v]) => [k, exportValue(v, ancestors)]),
+			),
+		};
+	}
+	ancestors.delete(value);
+	return exported;
+}
+
+function importValue(exported: ExportedValue): unknown {
+	switch (exported.type) {
+		case "null":
+			return null;
+		case "undefined":
+			return undefined;
+		case "u64":
+			return new KvU64(BigInt(exported.value));
+		case "date":
+			return new Date(exported.value);
+		case "regexp":
+			return new RegExp(exported.value, exported.flags);
+		case "array":
+			return exported.value.map(importValue);
+		case "set":
+			return new Set(exported.value.map(importValue));
+		case "map":
+			return new Map(
+				exported.value.map(([k, v]) => [importValue(k), importValue(v)]),
+			);
+		case "object":
+			// fromEntries defines "__proto__" as an own property instead of the prototype
+			return Object.fromEntries(
+				Object.entries(exported.value).map(([k, v]) => [k, importValue(v)]),
+			);
+		default:
+			return importKeyPart(exported);
+	}
+}
+
+function unexportable(type: string) {
+	return new KvInvalidValueError(KvErrors.ERROR_VALUE_NOT_EXPORTABLE(type));
+}
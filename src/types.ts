@@ -1,3 +1,8 @@
+import type { MeterProvider, TracerProvider } from "@opentelemetry/api";
+import type { KvCheckError, KvUniqueConflictError } from "./error";
+import type { KvU64 } from "./u64";
+import type { KvValueCodec } from "./value";
+
 /**
  * Represents a part of a KV Key.
  * Supported types: string, number, boolean, bigint, Uint8Array.
@@ -16,6 +21,7 @@ export type KvKey = KvKeyPart[];
 export type KvEntry<T = unknown> = {
 	key: KvKey;
 	value: T;
+	/** Versionstamp of the last write: 20 hex characters, comparable as strings */
 	version: string;
 };
 
@@ -33,6 +39,8 @@ export type KvCommitResult =
 	  }
 	| {
 			ok: false;
+			/** Why the commit failed: a check that did not hold, or a unique index conflict */
+			error: KvCheckError | KvUniqueConflictError;
 	  };
 
 /**
@@ -44,6 +52,21 @@ export interface KvListSelector {
 	end?: KvKey;
 }
 
+/**
+ * Read consistency. "strong" reads go through the writer connection and see
+ * every committed write. "eventual" reads use a reader connection from the
+ * pool: they take their own snapshot and do not hold up writes.
+ */
+export type KvConsistencyLevel = "strong" | "eventual";
+
+/**
+ * Options for `get` and `getMany`.
+ */
+export interface KvGetOptions {
+	/** Read consistency. Default: "strong" */
+	consistency?: KvConsistencyLevel;
+}
+
 /**
  * Options for listing keys.
  */
@@ -52,10 +75,80 @@ export interface KvListOptions {
 	limit?: number;
 	/** Reverse the iteration order */
 	reverse?: boolean;
-	consistency?: "strong" | "eventual"; // Ignored in sqlite (always strong-ish)
+	/** Read consistency. Default: "strong" */
+	consistency?: KvConsistencyLevel;
+	/** Opaque cursor from a previous listing; iteration resumes after it */
 	cursor?: string;
 }
 
+/**
+ * Async iterator returned by `list`.
+ */
+export interface KvListIterator<T = unknown>
+	extends AsyncIterableIterator<KvEntry<T>> {
+	/**
+	 * Cursor pointing at the last yielded entry.
+	 * Empty string once the listing is exhausted.
+	 */
+	readonly cursor: string;
+}
+
+/**
+ * A per-key change event emitted by `watchPrefix`.
+ */
+export type KvWatchEvent<T = unknown> =
+	| { type: "set"; key: KvKey; value: T; version: string }
+	| { type: "delete" | "expire"; key: KvKey; value: null; version: null };
+
+/**
+ * An event from the persistent change feed returned by `changes()`.
+ * `seq` is the change log position; it increases in commit order.
+ */
+export type KvChangeEvent<T = unknown> = KvWatchEvent<T> & { seq: number };
+
+/**
+ * Definition of a secondary index, passed to `defineIndex`.
+ */
+export interface KvIndexOptions<T = unknown> {
+	/** Only entries under this key prefix are indexed */
+	prefix: KvKey;
+	/**
+	 * Computes the indexed value: a key part, or a key for compound indexes.
+	 * Return `null` or `undefined` to leave an entry out of the index.
+	 */
+	on: (value: T, key: KvKey) => KvKeyPart | KvKey | null | undefined;
+	/** Reject writes that would give two entries the same indexed value */
+	unique?: boolean;
+}
+
+/**
+ * Options for `listIndex`.
+ */
+export type KvIndexListOptions = Pick<KvListOptions, "limit" | "reverse">;
+
+/**
+ * Options for `import()`.
+ */
+export interface KvImportOptions {
+	/**
+	 * What to do when a key already exists: replace it, keep it, or throw.
+	 * Default: "overwrite"
+	 */
+	mode?: "overwrite" | "skip" | "fail";
+	/** Entries written per transaction. Default: 1000 */
+	batchSize?: number;
+}
+
+/**
+ * Outcome of `import()`.
+ */
+export interface KvImportResult {
+	/** Entries written */
+	imported: number;
+	/** Entries left out: existing keys with mode "skip", and expired entries */
+	skipped: number;
+}
+
 /**
  * Options for setting a key.
  */
@@ -63,3 +156,392 @@ export interface KvSetOptions {
 	/** Expiration time in milliseconds relative to now */
 	expireIn?: number;
 }
+
+/**
+ * Options for enqueueing a queue message.
+ */
+export interface KvEnqueueOptions {
+	/** Delay in milliseconds before the message is delivered */
+	delay?: number;
+	/** Keys the message value is written to if every delivery attempt fails */
+	keysIfUndelivered?: KvKey[];
+	/** Retry delays in milliseconds; one retry per entry */
+	backoffSchedule?: number[];
+}
+
+/**
+ * A single mutation applied by `atomic().mutate()`.
+ * `sum`, `min` and `max` operate on `KvU64` values.
+ */
+export type KvMutation = { key: KvKey } & (
+	| { type: "set"; value: unknown; expireIn?: number }
+	| { type: "delete" }
+	| { type: "sum"; value: KvU64 }
+	| { type: "min"; value: KvU64 }
+	| { type: "max"; value: KvU64 }
+);
+
+/**
+ * Handle passed to the `transaction` callback. Reads go to the store and
+ * are tracked; writes are buffered and committed together when the
+ * callback returns, provided no tracked key changed in the meantime.
+ * Reads do not see the transaction's own buffered writes.
+ */
+export interface KvTransaction {
+	get<T = unknown>(key: KvKey): Promise<KvEntryMaybe<T>>;
+	getMany<T = unknown>(keys: KvKey[]): Promise<KvEntryMaybe<T>[]>;
+	set(key: KvKey, value: unknown, options?: KvSetOptions): KvTransaction;
+	delete(key: KvKey): KvTransaction;
+	sum(key: KvKey, n: bigint): KvTransaction;
+	min(key: KvKey, n: bigint): KvTransaction;
+	max(key: KvKey, n: bigint): KvTransaction;
+	enqueue(value: unknown, options?: KvEnqueueOptions): KvTransaction;
+}
+
+/**
+ * Options for `transaction`.
+ */
+export interface KvTransactionOptions {
+	/** Times the callback is re-run after a conflict. Default: 5 */
+	maxRetries?: number;
+	/** Milliseconds before the first retry; doubles on each retry. Default: 10 */
+	initialBackoff?: number;
+	/** Longest delay between retries in milliseconds. Default: 1000 */
+	maxBackoff?: number;
+}
+
+/**
+ * Options for opening a store.
+ * @typeParam S The value schemas, from which value types are inferred
+ */
+export interface KvOptions<
+	S extends readonly KvSchemaDefinition[] = readonly KvSchemaDefinition[],
+> {
+	/** Codec for new writes. Defaults to Bun's structured-clone serializer. */
+	codec?: KvValueCodec;
+	/** Enables the background sweeper that deletes expired rows */
+	sweeper?: KvSweeperOptions;
+	/**
+	 * Milliseconds between checks for writes made by other connections to the
+	 * same file, while `watch` streams are open. Default: 100
+	 */
+	changePollInterval?: number;
+	/** Retention policy of the persistent change log read by `changes()` */
+	changeLog?: KvChangeLogOptions;
+	/** Takes rotating backups on a schedule */
+	backups?: KvBackupOptions;
+	/** SQLite journal mode. Ignored for ":memory:" and read-only stores. Default: "wal" */
+	journalMode?: KvJournalMode;
+	/** SQLite `synchronous` setting. Default: SQLite's own ("full") */
+	synchronous?: KvSynchronous;
+	/** Milliseconds to wait for a lock held by another connection. Default: 5000 */
+	busyTimeout?: number;
+	/** SQLite `cache_size`: pages if positive, KiB if negative. Default: SQLite's own */
+	cacheSize?: number;
+	/** Bytes of the file to memory-map; 0 disables. Default: SQLite's own */
+	mmapSize?: number;
+	/** Open the file read-only; writes throw. Default: false */
+	readonly?: boolean;
+	/** Create the file if it does not exist. Default: true */
+	create?: boolean;
+	/**
+	 * Read-only connections serving `consistency: "eventual"` reads, in WAL
+	 * mode only; 0 serves them from the writer. Default: 2
+	 */
+	readers?: number;
+	/**
+	 * Size and count limits checked before every write. "deno" applies Deno
+	 * KV's limits. Default: no limits
+	 */
+	limits?: "deno" | KvLimits;
+	/** Compresses large values on write. Default: off */
+	compression?: KvCompressionOptions;
+	/** Encrypts values at rest. Keys stay plaintext. Default: off */
+	encryption?: KvEncryptionOptions;
+	/**
+	 * Validators for the values under key prefixes. Writes of invalid values
+	 * throw; the longest matching prefix applies. Default: none
+	 */
+	schemas?: S;
+	/**
+	 * OpenTelemetry spans and metrics. Default: both on when the `OTEL_BUN`
+	 * environment variable is "true", otherwise off
+	 */
+	telemetry?: KvTelemetryOptions;
+	/**
+	 * Called when a background job fails; the job runs again on its next
+	 * tick. Default: logs the error with `console.error`
+	 */
+	onError?: (error: unknown, job: KvBackgroundJob) => void;
+}
+
+/**
+ * Background jobs whose failures are passed to `onError`.
+ */
+export type KvBackgroundJob = "sweeper" | "backups" | "changePoller" | "queue";
+
+/**
+ * OpenTelemetry instrumentation. `true` uses the globally registered
+ * provider; pass a provider to use another one.
+ */
+export interface KvTelemetryOptions {
+	/** Record spans. Default: false */
+	tracing?: boolean | TracerProvider;
+	/** Record metrics. Default: false */
+	metrics?: boolean | MeterProvider;
+}
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * zod, valibot, ArkType and others.
+ */
+export interface KvStandardSchema<Input = unknown, Output = Input> {
+	readonly "~standard": {
+		readonly version: 1;
+		readonly vendor: string;
+		readonly validate: (
+			value: unknown,
+		) => KvSchemaResult<Output> | Promise<KvSchemaResult<Output>>;
+		readonly types?:
+			| { readonly input: Input; readonly output: Output }
+			| undefined;
+	};
+}
+
+/**
+ * Result of a Standard Schema validation.
+ */
+export type KvSchemaResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: readonly KvSchemaIssue[] };
+
+/**
+ * A problem reported by a Standard Schema validator.
+ */
+export interface KvSchemaIssue {
+	readonly message: string;
+	readonly path?:
+		| readonly (PropertyKey | { readonly key: PropertyKey })[]
+		| undefined;
+}
+
+/**
+ * Validates the values stored under a key prefix.
+ */
+export interface KvSchemaDefinition<
+	Schema extends KvStandardSchema = KvStandardSchema,
+> {
+	/** Keys starting with this prefix are validated */
+	prefix: KvKey;
+	schema: Schema;
+	/**
+	 * Also validate values read by `get`, `getMany`, `list`, `watch`,
+	 * `watchPrefix`, `changes`, `lookup` and `listIndex`. Skipped once a write
+	 * finds that the schema rejects its own output, i.e. transforms values.
+	 * Default: false
+	 */
+	validateReads?: boolean;
+}
+
+/**
+ * Default of the value type parameters of reads: infer the type from the
+ * schema of the key.
+ */
+export type KvInferValue = { readonly "~kvInferValue": true };
+
+type StartsWith<K, P> = P extends readonly [infer PH, ...infer PT]
+	? K extends readonly [infer KH, ...infer KT]
+		? KH extends PH
+			? StartsWith<KT, PT>
+			: false
+		: false
+	: true;
+
+// The matching definition with the longest prefix, or never
+type SchemaFor<S, K, Best = never> = S extends readonly [
+	infer D extends KvSchemaDefinition,
+	...infer Rest,
+]
+	? StartsWith<K, D["prefix"]> extends true
+		? [Best] extends [never]
+			? SchemaFor<Rest, K, D>
+			: Best extends KvSchemaDefinition
+				? StartsWith<D["prefix"], Best["prefix"]> extends true
+					? SchemaFor<Rest, K, D>
+					: SchemaFor<Rest, K, Best>
+				: never
+		: SchemaFor<Rest, K, Best>
+	: Best;
+
+// Definitions whose prefix lies strictly below P
+type SchemasUnder<S, P extends readonly unknown[]> = S extends readonly [
+	infer D extends KvSchemaDefinition,
+	...infer Rest,
+]
+	?
+			| (D["prefix"] extends readonly [...P, unknown, ...unknown[]] ? D : never)
+			| SchemasUnder<Rest, P>
+	: never;
+
+type SchemaTypes<D> =
+	D extends KvSchemaDefinition<infer Schema>
+		? NonNullable<Schema["~standard"]["types"]>
+		: never;
+
+/**
+ * Value type stored at key `K` according to the schemas `S`: the schema's
+ * output type, or `unknown` when no schema matches or `K` is not a tuple.
+ */
+export type KvSchemaValue<S, K> = [SchemaFor<S, K>] extends [never]
+	? unknown
+	: SchemaTypes<SchemaFor<S, K>>["output"];
+
+/**
+ * Value type accepted at key `K` according to the schemas `S`: the schema's
+ * input type, or `unknown` when no schema matches or `K` is not a tuple.
+ */
+export type KvSchemaInput<S, K> = [SchemaFor<S, K>] extends [never]
+	? unknown
+	: SchemaTypes<SchemaFor<S, K>>["input"];
+
+/**
+ * Value type of the entries listed under prefix `P`, including the schemas
+ * of narrower prefixes below it.
+ */
+export type KvSchemaValueUnder<S, P extends readonly unknown[]> =
+	| KvSchemaValue<S, P>
+	| SchemaTypes<SchemasUnder<S, P>>["output"];
+
+/**
+ * Entries read for the keys `K`, with value types resolved as for `get`.
+ */
+export type KvSchemaEntries<T, S, K extends readonly KvKey[]> = {
+	[I in keyof K]: KvEntryMaybe<KvResolveValue<T, KvSchemaValue<S, K[I]>>>;
+};
+
+/**
+ * `T` if given explicitly, otherwise the value type inferred from a schema.
+ */
+export type KvResolveValue<T, Inferred> = 0 extends 1 & T
+	? T
+	: [T] extends [KvInferValue]
+		? Inferred
+		: T;
+
+/**
+ * Encryption of stored values with AES-GCM. Each row records the ID of the
+ * key that encrypted it, so keys can be rotated: add a new key, make it
+ * current, run `reencrypt()`, then drop the old one.
+ */
+export interface KvEncryptionOptions {
+	/**
+	 * Keys by ID: raw 128, 192 or 256-bit keys, or extractable AES-GCM
+	 * CryptoKeys. IDs may use letters, digits, "_", "." and "-".
+	 */
+	keys: Record<string, Uint8Array | CryptoKey>;
+	/** ID of the key new writes are encrypted with */
+	currentKeyId: string;
+}
+
+/**
+ * Options for `reencrypt()`.
+ */
+export interface KvReencryptOptions {
+	/** Rows rewritten per transaction. Default: 1000 */
+	batchSize?: number;
+}
+
+/**
+ * Compression algorithms built into Bun.
+ */
+export type KvCompressionAlgorithm = "gzip" | "zstd";
+
+/**
+ * Opt-in compression of stored values. Each row records whether and how it
+ * was compressed, so rows stay readable when the settings change.
+ */
+export interface KvCompressionOptions {
+	algorithm: KvCompressionAlgorithm;
+	/** Smallest serialized value, in bytes, that is compressed. Default: 1024 */
+	threshold?: number;
+	/** Compression level: 1-9 for gzip, 1-22 for zstd. Default: the algorithm's own */
+	level?: number;
+}
+
+/**
+ * Limits enforced on writes, before anything is written. Keys are measured
+ * encoded, values as codec output before compression and encryption.
+ * Unset limits are not enforced.
+ */
+export interface KvLimits {
+	/** Largest encoded key, including checked keys (Deno: 2048) */
+	maxKeySize?: number;
+	/** Largest serialized value, including queue messages (Deno: 65536) */
+	maxValueSize?: number;
+	/** Most checks in one atomic commit (Deno: 100) */
+	maxChecks?: number;
+	/** Most mutations in one atomic commit (Deno: 1000) */
+	maxMutations?: number;
+	/** Largest total of keys and values in one commit (Deno: 819200) */
+	maxCommitSize?: number;
+}
+
+/**
+ * SQLite journal modes accepted by `journalMode`.
+ */
+export type KvJournalMode =
+	| "wal"
+	| "delete"
+	| "truncate"
+	| "persist"
+	| "memory"
+	| "off";
+
+/**
+ * SQLite `synchronous` settings, from fastest to most durable.
+ */
+export type KvSynchronous = "off" | "normal" | "full" | "extra";
+
+/**
+ * Options for scheduled rotating backups.
+ */
+export interface KvBackupOptions {
+	/** Directory the backup files are written to */
+	dir: string;
+	/** Milliseconds between backups. Default: 3600000 (1 hour) */
+	interval?: number;
+	/** Number of most recent backups to keep. Default: 24 */
+	keep?: number;
+	/** File name prefix, used to find older backups to delete. Default: "backup" */
+	prefix?: string;
+}
+
+/**
+ * Retention policy for the change log. Both limits apply when set.
+ */
+export interface KvChangeLogOptions {
+	/** Drop changes older than this many milliseconds. Default: 24 hours */
+	maxAge?: number;
+	/** Keep at most this many most recent changes. Default: unlimited */
+	maxCount?: number;
+}
+
+/**
+ * Options for `changes()`.
+ */
+export interface KvChangesOptions {
+	/** Replay changes with a `seq` greater than this. Default: oldest retained */
+	since?: number;
+	/** Only include keys under this prefix */
+	prefix?: KvKey;
+}
+
+/**
+ * Options for the background TTL sweeper.
+ */
+export interface KvSweeperOptions {
+	/** Milliseconds between sweeps. Default: 60000 */
+	interval?: number;
+	/** Maximum rows deleted per transaction. Default: 1000 */
+	batchSize?: number;
+}
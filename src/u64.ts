@@ -0,0 +1,60 @@
+const MAX_U64 = 2n ** 64n - 1n;
+
+/**
+ * An unsigned 64-bit integer value.
+ * Compatible with `Deno.KvU64`; used by the `sum`, `min` and `max` atomic
+ * mutations, which wrap around at 64 bits.
+ */
+export class KvU64 {
+	readonly value: bigint;
+
+	/**
+	 * @param value An integer in the range [0, 2^64 - 1]
+	 */
+	constructor(value: bigint) {
+		if (typeof value !== "bigint") {
+			throw new TypeError("Value must be a bigint");
+		}
+		if (value < 0n) {
+			throw new RangeError("Value must be a positive bigint");
+		}
+		if (value > MAX_U64) {
+			throw new RangeError("Value must fit in a 64-bit unsigned integer");
+		}
+		this.value = value;
+		Object.freeze(this);
+	}
+
+	valueOf(): bigint {
+		return this.value;
+	}
+
+	toString(): string {
+		return this.value.toString();
+	}
+
+	get [Symbol.toStringTag]() {
+		return "Deno.KvU64";
+	}
+}
+
+/**
+ * Adds two values, wrapping around at 2^64.
+ */
+export function sumU64(a: KvU64, b: KvU64): KvU64 {
+	return new KvU64((a.value + b.value) & MAX_U64);
+}
+
+/**
+ * Returns the smaller of two values.
+ */
+export function minU64(a: KvU64, b: KvU64): KvU64 {
+	return a.value < b.value ? a : b;
+}
+
+/**
+ * Returns the larger of two values.
+ */
+export function maxU64(a: KvU64, b: KvU64): KvU64 {
+	return a.value > b.value ? a : b;
+}
@@ -0,0 +1,242 @@
+import { deserialize, serialize } from "bun:jsc";
+import {
+	compress,
+	decompress,
+	isCompressionAlgorithm,
+	type ResolvedCompression,
+} from "./compression";
+import {
+	decrypt,
+	ENCRYPTION_PREFIX,
+	encrypt,
+	type ResolvedEncryption,
+} from "./encryption";
+import {
+	KvErrors,
+	KvInvalidArgumentError,
+	KvInvalidStateError,
+	KvInvalidValueError,
+} from "./error";
+import { valueSize } from "./limits";
+import { KvU64 } from "./u64";
+
+/**
+ * Raw contents of a `value` column: TEXT for JSON rows, BLOB for binary codecs.
+ */
+export type StoredValue = string | Uint8Array | null;
+
+/**
+ * A serialized value and the name of the encoding that produced it.
+ */
+export interface EncodedValue {
+	data: string | Uint8Array;
+	encoding: string;
+}
+
+/**
+ * A newly serialized value, with the size that limits are checked against.
+ */
+export interface SerializedValue extends EncodedValue {
+	/** Bytes of codec output, before compression and encryption */
+	size: number;
+}
+
+/**
+ * Serializes values for storage.
+ * The codec `name` is recorded on every row it writes, so it must be stable
+ * and unique; rows are always decoded with the codec that wrote them.
+ * `decode` receives bytes for compressed rows, even if `encode` returned a string.
+ */
+export interface KvValueCodec {
+	readonly name: string;
+	encode(value: unknown): string | Uint8Array;
+	decode(data: string | Uint8Array): unknown;
+}
+
+/**
+ * JSON codec. Used by rows written before codecs existed.
+ * Cannot represent `Date`, `Map`, `Set`, `bigint`, `undefined`, etc.
+ */
+export const jsonCodec: KvValueCodec = {
+	name: "json",
+	encode: (value) => JSON.stringify(value) ?? "null",
+	decode: (data) =>
+		JSON.parse(
+			typeof data === "string" ? data : new TextDecoder().decode(data),
+		),
+};
+
+/**
+ * Bun's structured-clone serializer (the default).
+ * Round-trips `Date`, `Map`, `Set`, `bigint`, typed arrays, `undefined`, `RegExp`, etc.
+ */
+export const structuredCloneCodec: KvValueCodec = {
+	name: "structured-clone",
+	encode: (value) => serialize(value, { binaryType: "nodebuffer" }),
+	decode: (data) =>
+		deserialize(typeof data === "string" ? Buffer.from(data) : data),
+};
+
+// Top-level KvU64 values get a dedicated encoding so atomic sum/min/max can
+// recognize them independently of the configured codec.
+const U64_ENCODING = "u64";
+// Compressed and encrypted rows add layers to the codec name, applied left
+// to right: e.g. "json+gzip" or "structured-clone+zstd+aes-gcm:2024"
+const LAYER_SEPARATOR = "+";
+
+/**
+ * Encodes and decodes stored values, dispatching on each row's `value_encoding`.
+ */
+export class ValueSerializer {
+	private codecs = new Map<string, KvValueCodec>();
+
+	/**
+	 * @param codec Codec used for new writes
+	 * @param compression Compression applied to new writes, if any
+	 * @param encryption Encryption applied to new writes, if any
+	 */
+	constructor(
+		private codec: KvValueCodec = structuredCloneCodec,
+		private compression: ResolvedCompression | null = null,
+		private encryption: ResolvedEncryption | null = null,
+	) {
+		if (codec.name === U64_ENCODING) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_RESERVED_CODEC_NAME(codec.name),
+			);
+		}
+		if (codec.name.includes(LAYER_SEPARATOR)) {
+			throw new KvInvalidArgumentError(
+				KvErrors.ERROR_INVALID_CODEC_NAME(codec.name),
+			);
+		}
+		for (const c of [jsonCodec, structuredCloneCodec, codec]) {
+			this.codecs.set(c.name, c);
+		}
+	}
+
+	/**
+	 * Serializes a value for storage.
+	 *
+	 * @param value The value to store
+	 * @param aad What an encrypted value is bound to: the row's encoded key
+	 * @returns The column data, its encoding and its uncompressed size
+	 */
+	encode(value: unknown, aad: Uint8Array): SerializedValue {
+		let encoded: EncodedValue;
+		let size: number;
+		if (value instanceof KvU64) {
+			encoded = { data: value.value.toString(), encoding: U64_ENCODING };
+			size = valueSize(encoded.data);
+		} else {
+			encoded = { data: this.codec.encode(value), encoding: this.codec.name };
+			const compression = this.compression;
+			size = valueSize(encoded.data);
+			if (compression && size >= compression.threshold) {
+				const compressed = compress(encoded.data, compression);
+				// Incompressible data is cheaper to keep as is
+				if (compressed.length < size) {
+					encoded = {
+						data: compressed,
+						encoding: `${encoded.encoding}${LAYER_SEPARATOR}${compression.algorithm}`,
+					};
+				}
+			}
+		}
+		return { ...this.seal(encoded, aad), size };
+	}
+
+	/**
+	 * Deserializes a stored value.
+	 *
+	 * @param data The `value` column
+	 * @param encoding The `value_encoding` column: the codec name plus any
+	 *   compression and encryption layers; `null` for legacy JSON rows
+	 * @param aad The associated data the value was encrypted with
+	 * @returns The original value
+	 */
+	decode(data: StoredValue, encoding: string | null, aad: Uint8Array): unknown {
+		if (data === null) {
+			return null;
+		}
+		const [name = jsonCodec.name, ...layers] = (
+			encoding ?? jsonCodec.name
+		).split(LAYER_SEPARATOR);
+		let bytes: string | Uint8Array = data;
+		for (const layer of layers.reverse()) {
+			if (layer.startsWith(ENCRYPTION_PREFIX)) {
+				bytes = decrypt(bytes, this.key(layer), aad);
+			} else if (isCompressionAlgorithm(layer)) {
+				bytes = decompress(bytes, layer);
+			} else {
+				throw new KvInvalidValueError(
+					KvErrors.ERROR_UNKNOWN_VALUE_ENCODING(String(encoding)),
+				);
+			}
+		}
+		if (name === U64_ENCODING) {
+			const digits =
+				typeof bytes === "string" ? bytes : new TextDecoder().decode(bytes);
+			return new KvU64(BigInt(digits));
+		}
+		const codec = this.codecs.get(name);
+		if (!codec) {
+			throw new KvInvalidValueError(
+				KvErrors.ERROR_UNKNOWN_VALUE_ENCODING(String(encoding)),
+			);
+		}
+		return codec.decode(bytes);
+	}
+
+	/**
+	 * Re-encrypts a stored value with the current key, without decoding it.
+	 *
+	 * @param stored The row's `value` and `value_encoding`
+	 * @param aad The associated data the value is bound to
+	 * @returns The new column data, or null if it already uses the current key
+	 */
+	reseal(stored: EncodedValue, aad: Uint8Array): EncodedValue | null {
+		const current = this.encryptionLayer;
+		if (!current) {
+			throw new KvInvalidStateError(KvErrors.ERROR_ENCRYPTION_DISABLED);
+		}
+		if (stored.encoding.endsWith(current)) return null;
+		const separator = stored.encoding.lastIndexOf(LAYER_SEPARATOR);
+		const layer = stored.encoding.slice(separator + 1);
+		if (separator !== -1 && layer.startsWith(ENCRYPTION_PREFIX)) {
+			stored = {
+				data: decrypt(stored.data, this.key(layer), aad),
+				encoding: stored.encoding.slice(0, separator),
+			};
+		}
+		return this.seal(stored, aad);
+	}
+
+	/**
+	 * Encoding suffix of values encrypted with the current key, e.g.
+	 * "+aes-gcm:2024"; null when encryption is off.
+	 */
+	get encryptionLayer(): string | null {
+		const id = this.encryption?.currentKeyId;
+		return id ? `${LAYER_SEPARATOR}${ENCRYPTION_PREFIX}${id}` : null;
+	}
+
+	private seal(encoded: EncodedValue, aad: Uint8Array): EncodedValue {
+		const encryption = this.encryption;
+		if (!encryption) return encoded;
+		const id = encryption.currentKeyId;
+		return {
+			data: encrypt(encoded.data, this.key(`${ENCRYPTION_PREFIX}${id}`), aad),
+			encoding: `${encoded.encoding}${LAYER_SEPARATOR}${ENCRYPTION_PREFIX}${id}`,
+		};
+	}
+
+	private key(layer: string) {
+		const id = layer.slice(ENCRYPTION_PREFIX.length);
+		const key = this.encryption?.keys.get(id);
+		if (!key) {
+			throw new KvInvalidValueError(KvErrors.ERROR_UNKNOWN_ENCRYPTION_KEY(id));
+		}
+		return key;
+	}
+}
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import {
+	type BunKV,
+	KvCheckError,
+	KvInvalidArgumentError,
+	KvInvalidValueError,
+	KvU64,
+	openKv,
+} from "../src/index";
+
+describe("Atomic Mutations", () => {
+	let kv: BunKV;
+
+	beforeEach(async () => {
+		kv = await openKv(":memory:");
+	});
+
+	afterEach(async () => {
+		await kv.close();
+	});
+
+	test("KvU64 validates its range", () => {
+		expect(new KvU64(0n).value).toBe(0n);
+		expect(new KvU64(2n ** 64n - 1n).value).toBe(2n ** 64n - 1n);
+		expect(() => new KvU64(-1n)).toThrow(RangeError);
+		expect(() => new KvU64(2n ** 64n)).toThrow(RangeError);
+	});
+
+	test("KvU64 round-trips through set and get", async () => {
+		await kv.set(["u64"], new KvU64(42n));
+		const entry = await kv.get<KvU64>(["u64"]);
+		expect(entry.value).toBeInstanceOf(KvU64);
+		expect(entry.value?.value).toBe(42n);
+	});
+
+	test("sum treats a missing key as zero and accumulates", async () => {
+		await kv.atomic().sum(["counter"], 5n).commit();
+		await kv.atomic().sum(["counter"], 10n).commit();
+		expect((await kv.get<KvU64>(["counter"])).value?.value).toBe(15n);
+	});
+
+	test("sum wraps at 64 bits", async () => {
+		await kv.set(["counter"], new KvU64(2n ** 64n - 1n));
+		await kv.atomic().sum(["counter"], 2n).commit();
+		expect((await kv.get<KvU64>(["counter"])).value?.value).toBe(1n);
+	});
+
+	test("min and max", async () => {
+		await kv.atomic().min(["low"], 10n).max(["high"], 10n).commit();
+		await kv.atomic().min(["low"], 3n).max(["high"], 3n).commit();
+		await kv.atomic().min(["low"], 7n).max(["high"], 20n).commit();
+		expect((await kv.get<KvU64>(["low"])).value?.value).toBe(3n);
+		expect((await kv.get<KvU64>(["high"])).value?.value).toBe(20n);
+	});
+
+	test("mutations apply in order within one commit", async () => {
+		const res = await kv
+			.atomic()
+			.set(["c"], new KvU64(1n))
+			.sum(["c"], 1n)
+			.mutate({ type: "sum", key: ["c"], value: new KvU64(3n) })
+			.commit();
+		expect(res.ok).toBe(true);
+		const entry = await kv.get<KvU64>(["c"]);
+		expect(entry.value?.value).toBe(5n);
+		if (res.ok) expect(entry.version).toBe(res.version);
+	});
+
+	test("sum on a non-U64 value throws and rolls back", async () => {
+		await kv.set(["c"], 1);
+		await expect(
+			kv.atomic().set(["d"], 1).sum(["c"], 1n).commit(),
+		).rejects.toThrow(KvInvalidValueError);
+		expect((await kv.get(["c"])).value).toBe(1);
+		expect((await kv.get(["d"])).value).toBeNull();
+	});
+
+	test("mutate rejects sum without a KvU64 operand", () => {
+		expect(() =>
+			kv
+				.atomic()
+				.mutate({ type: "sum", key: ["c"], value: 1n as unknown as KvU64 }),
+		).toThrow(KvInvalidArgumentError);
+	});
+});
+
+describe("Range Checks", () => {
+	let kv: BunKV;
+
+	beforeEach(async () => {
+		kv = await openKv(":memory:");
+	});
+
+	afterEach(async () => {
+		await kv.close();
+	});
+
+	const latestVersion = async (prefix: string[]) => {
+		let latest: string | null = null;
+		for await (const entry of kv.list({ prefix })) {
+			if (latest === null || entry.version > latest) latest = entry.version;
+		}
+		return latest;
+	};
+
+	test("null requires an empty range", async () => {
+		const insert = () =>
+			kv
+				.atomic()
+				.checkRange({ prefix: ["orders", "o1"] }, null)
+				.set(["orders", "o1", "line", 1], "widget")
+				.commit();
+
+		expect((await insert()).ok).toBe(true);
+		const res = await insert();
+		expect(res.ok).toBe(false);
+		if (res.ok) return;
+		expect(res.error).toBeInstanceOf(KvCheckError);
+		const error = res.error as KvCheckError;
+		expect(error.message).toBe("Range check failed: range is not empty");
+		expect(error.check).toBe(0);
+		expect(error.key).toEqual(["orders", "o1", "line", 1]);
+		expect(error.selector).toEqual({ prefix: ["orders", "o1"] });
+	});
+
+	test("expired keys do not count as present", async () => {
+		await kv.set(["slots", 1], "gone", { expireIn: 1 });
+		await Bun.sleep(5);
+		const res = await kv
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, null)
+			.commit();
+		expect(res.ok).toBe(true);
+	});
+
+	test("a version fails once a key in the range is written", async () => {
+		await kv.set(["slots", 1], "a");
+		await kv.set(["slots", 2], "b");
+		const seen = await latestVersion(["slots"]);
+
+		await kv.set(["other"], "outside the range");
+		const allocate = () =>
+			kv
+				.atomic()
+				.checkRange({ prefix: ["slots"] }, seen)
+				.set(["slots", 3], "c")
+				.commit();
+		expect((await allocate()).ok).toBe(true);
+
+		// The allocation itself changed the range
+		const res = await allocate();
+		expect(res.ok).toBe(false);
+		if (res.ok) return;
+		const error = res.error as KvCheckError;
+		expect(error.message).toBe(
+			"Range check failed: a key in the range changed",
+		);
+		expect(error.key).toEqual(["slots", 3]);
+		expect(error.expected).toBe(seen);
+		expect(error.actual).toBe((await kv.get(["slots", 3])).version);
+	});
+
+	test("a version fails once a key in the range is deleted", async () => {
+		await kv.set(["slots", 1], "a");
+		const seen = await latestVersion(["slots"]);
+		await kv.delete(["slots", 1]);
+
+		const res = await kv
+			.atomic()
+			.checkRange({ start: ["slots", 0], end: ["slots", 9] }, seen)
+			.commit();
+		expect(res.ok).toBe(false);
+		if (res.ok) return;
+		expect((res.error as KvCheckError).key).toEqual(["slots", 1]);
+		expect((res.error as KvCheckError).actual).toBeNull();
+	});
+
+	test("currentVersion covers keys deleted before the listing", async () => {
+		await kv.set(["slots", 1], "a");
+		await kv.set(["slots", 2], "b");
+		await kv.delete(["slots", 2]);
+
+		const seen = await kv.currentVersion();
+		let next = 1;
+		for await (const entry of kv.list({ prefix: ["slots"] })) {
+			next = (entry.key[1] as number) + 1;
+		}
+		const res = await kv
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, seen)
+			.set(["slots", next], "mine")
+			.commit();
+		expect(res.ok).toBe(true);
+		expect((await kv.get(["slots", 2])).value).toBe("mine");
+
+		// A delete after the version still fails the check
+		const later = await kv.currentVersion();
+		await kv.delete(["slots", 1]);
+		const again = await kv
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, later)
+			.commit();
+		expect(again.ok).toBe(false);
+	});
+
+	test("currentVersion stays usable once the change log is empty", async () => {
+		const path = "./tests/data/test_atomic.sqlite";
+		const writer = await openKv(path);
+		await writer.set(["slots", 1], "a");
+		await writer.delete(["slots", 1]);
+		await writer.close();
+		await Bun.sleep(5);
+
+		// Every change has aged out by the time the store opens
+		const trimmed = await openKv(path, { changeLog: { maxAge: 1 } });
+		const res = await trimmed
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, await trimmed.currentVersion())
+			.commit();
+		expect(res.ok).toBe(true);
+		await trimmed.close();
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(path + suffix)) unlinkSync(path + suffix);
+		}
+	});
+
+	test("a commit does not conflict with its own deletes", async () => {
+		await kv.set(["slots", 2], "b");
+		const res = await kv
+			.atomic()
+			.set(["slots", 1], "a")
+			.delete(["slots", 2])
+			.commit();
+		if (!res.ok) throw res.error;
+
+		const again = await kv
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, res.version)
+			.commit();
+		expect(again.ok).toBe(true);
+	});
+
+	test("fails when the change log no longer covers the version", async () => {
+		const trimmed = await openKv(":memory:", { changeLog: { maxCount: 1 } });
+		await trimmed.set(["slots", 1], "a");
+		const seen = (await trimmed.get(["slots", 1])).version;
+
+		const bulk = trimmed.atomic();
+		for (let i = 0; i < 1000; i++) bulk.set(["bulk", i], i);
+		await bulk.commit();
+
+		const res = await trimmed
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, seen)
+			.commit();
+		expect(res.ok).toBe(false);
+		if (!res.ok) {
+			expect(res.error.message).toBe(
+				"Range check failed: changes since the expected version are no longer retained",
+			);
+		}
+		await trimmed.close();
+	});
+});
@@ -0,0 +1,146 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, readdirSync, rmSync, writeFileSync } from "node:fs";
+import { openKv } from "../src/index";
+import { BunKV } from "../src/kv";
+
+const DIR = "./tests/data/backup";
+const DB_PATH = `${DIR}/live.sqlite`;
+
+describe("Backup and Restore", () => {
+	afterEach(() => {
+		rmSync(DIR, { recursive: true, force: true });
+	});
+
+	test("backup writes a consistent snapshot of a live store", async () => {
+		const kv = await openKv(DB_PATH);
+		await kv.set(["users", "alice"], { name: "Alice" });
+		await kv.set(["users", "bob"], { name: "Bob" });
+
+		await kv.backup(`${DIR}/snap/one.sqlite`);
+		await kv.set(["users", "carol"], { name: "Carol" });
+
+		const copy = await openKv(`${DIR}/snap/one.sqlite`);
+		const keys = [];
+		for await (const entry of copy.list({ prefix: ["users"] })) {
+			keys.push(entry.key);
+		}
+		expect(keys).toEqual([
+			["users", "alice"],
+			["users", "bob"],
+		]);
+		expect((await copy.get(["users", "alice"])).value).toEqual({
+			name: "Alice",
+		});
+
+		await copy.close();
+		await kv.close();
+	});
+
+	test("backup works for in-memory stores", async () => {
+		const kv = await openKv(":memory:");
+		await kv.set(["k"], 1n);
+		await kv.backup(`${DIR}/memory.sqlite`);
+		await kv.close();
+
+		const copy = await openKv(`${DIR}/memory.sqlite`);
+		expect((await copy.get(["k"])).value).toBe(1n);
+		await copy.close();
+	});
+
+	test("backup refuses to overwrite an existing file", async () => {
+		const kv = await openKv(DB_PATH);
+		await kv.backup(`${DIR}/dup.sqlite`);
+		await expect(kv.backup(`${DIR}/dup.sqlite`)).rejects.toThrow();
+		await kv.close();
+	});
+
+	test("restore replaces the destination with the backup", async () => {
+		let kv = await openKv(DB_PATH);
+		await kv.set(["config"], "v1");
+		await kv.backup(`${DIR}/v1.sqlite`);
+		await kv.set(["config"], "v2");
+		await kv.set(["extra"], true);
+		await kv.close();
+
+		await BunKV.restore(`${DIR}/v1.sqlite`, DB_PATH);
+
+		kv = await openKv(DB_PATH);
+		expect((await kv.get(["config"])).value).toBe("v1");
+		expect((await kv.get(["extra"])).value).toBeNull();
+		await kv.close();
+	});
+
+	test("restore rejects missing or foreign files", async () => {
+		await expect(
+			BunKV.restore(`${DIR}/missing.sqlite`, DB_PATH),
+		).rejects.toThrow("Backup not found");
+
+		const kv = await openKv(DB_PATH);
+		await kv.set(["keep"], 1);
+		await kv.close();
+
+		writeFileSync(`${DIR}/garbage.sqlite`, "not a database");
+		await expect(
+			BunKV.restore(`${DIR}/garbage.sqlite`, DB_PATH),
+		).rejects.toThrow();
+
+		const foreign = new Database(`${DIR}/foreign.sqlite`);
+		foreign.run("CREATE TABLE t (x)");
+		foreign.close();
+		await expect(
+			BunKV.restore(`${DIR}/foreign.sqlite`, DB_PATH),
+		).rejects.toThrow("Not an intact BunKV database");
+
+		const after = await openKv(DB_PATH);
+		expect((await after.get(["keep"])).value).toBe(1);
+		expect(existsSync(`${DB_PATH}.restore`)).toBe(false);
+		await after.close();
+	});
+
+	test("scheduled backups rotate", async () => {
+		const kv = await openKv(DB_PATH, {
+			backups: { dir: `${DIR}/rotating`, interval: 20, keep: 2 },
+		});
+		await kv.set(["n"], 1);
+		await Bun.sleep(150);
+		await kv.close();
+
+		const files = readdirSync(`${DIR}/rotating`);
+		expect(files.length).toBe(2);
+		for (const file of files) {
+			expect(file).toMatch(/^backup-.*\.sqlite$/);
+		}
+	});
+
+	test("a failed scheduled backup is reported and retried", async () => {
+		const errors: unknown[] = [];
+		const kv = await openKv(DB_PATH, {
+			backups: { dir: `${DIR}/failing`, interval: 20 },
+			onError: (error, job) => {
+				expect(job).toBe("backups");
+				errors.push(error);
+			},
+		});
+		// A file in place of the backup directory makes every backup fail
+		rmSync(`${DIR}/failing`, { recursive: true });
+		writeFileSync(`${DIR}/failing`, "");
+		await Bun.sleep(60);
+		expect(errors.length).toBeGreaterThan(0);
+
+		rmSync(`${DIR}/failing`);
+		await Bun.sleep(60);
+		await kv.close();
+		expect(readdirSync(`${DIR}/failing`).length).toBeGreaterThan(0);
+	});
+
+	test("rejects invalid backup options", () => {
+		expect(
+			() => new BunKV(":memory:", { backups: { dir: DIR, interval: 0 } }),
+		).toThrow("Backup interval must be a positive number");
+		expect(
+			() => new BunKV(DB_PATH, { backups: { dir: DIR, keep: 0 } }),
+		).toThrow("Backup keep count must be a positive integer");
+		expect(existsSync(DB_PATH)).toBe(false);
+	});
+});
@@ -0,0 +1,206 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { BunKV, KvInvalidArgumentError, openKv } from "../src/index";
+import type { KvChangeEvent } from "../src/types";
+
+const DB_PATH = "./tests/data/test_changes.sqlite";
+
+async function take<T>(
+	reader: { read(): Promise<{ done: boolean; value?: KvChangeEvent<T> }> },
+	count: number,
+): Promise<KvChangeEvent<T>[]> {
+	const events: KvChangeEvent<T>[] = [];
+	while (events.length < count) {
+		const { value, done } = await reader.read();
+		if (done || !value) break;
+		events.push(value);
+	}
+	return events;
+}
+
+describe("Change Feed", () => {
+	afterEach(() => {
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) {
+				unlinkSync(DB_PATH + suffix);
+			}
+		}
+	});
+
+	test("replays history then tails live writes", async () => {
+		const kv = await openKv();
+		await kv.set(["users", "alice"], "Alice");
+		await kv.delete(["users", "alice"]);
+
+		const reader = kv.changes<string>().getReader();
+		const [replayed] = await take(reader, 1);
+		expect(replayed?.type).toBe("delete");
+		expect(replayed?.key).toEqual(["users", "alice"]);
+
+		const live = reader.read();
+		await kv.set(["users", "bob"], "Bob");
+		const { value } = await live;
+		expect(value?.type).toBe("set");
+		expect(value?.value).toBe("Bob");
+		expect(value?.seq).toBeGreaterThan(replayed?.seq as number);
+
+		reader.cancel();
+		await kv.close();
+	});
+
+	test("skips sets overwritten later and keeps commit order", async () => {
+		const kv = await openKv();
+		await kv.set(["a"], 1);
+		await kv.set(["b"], 2);
+		await kv.set(["a"], 3);
+
+		const reader = kv.changes<number>().getReader();
+		const events = await take(reader, 2);
+		expect(events.map((e) => [e.key, e.value])).toEqual([
+			[["b"], 2],
+			[["a"], 3],
+		]);
+		expect(events[0]?.seq).toBeLessThan(events[1]?.seq as number);
+
+		const live = reader.read();
+		await kv.set(["c"], 4);
+		const { value } = await live;
+		expect(value?.key).toEqual(["c"]);
+		expect(value?.value).toBe(4);
+
+		reader.cancel();
+		await kv.close();
+	});
+
+	test("resumes after a persisted seq across restarts", async () => {
+		let kv = await openKv(DB_PATH);
+		await kv.set(["job", 1], "one");
+		await kv.set(["job", 2], "two");
+		let reader = kv.changes<string>().getReader();
+		const [first] = await take(reader, 1);
+		reader.cancel();
+		await kv.close();
+
+		kv = await openKv(DB_PATH);
+		await kv.set(["job", 3], "three");
+		reader = kv.changes<string>({ since: first?.seq }).getReader();
+		const rest = await take(reader, 2);
+		expect(rest.map((e) => e.value)).toEqual(["two", "three"]);
+
+		reader.cancel();
+		await kv.close();
+	});
+
+	test("filters by prefix", async () => {
+		const kv = await openKv();
+		await kv.set(["users", "alice"], 1);
+		await kv.set(["orders", 1], 2);
+		await kv.set(["users", 7n], 3);
+
+		const reader = kv.changes({ prefix: ["users"] }).getReader();
+		const events = await take(reader, 2);
+		expect(events.map((e) => e.key)).toEqual([
+			["users", "alice"],
+			["users", 7n],
+		]);
+
+		reader.cancel();
+		await kv.close();
+	});
+
+	test("errors when resuming from a trimmed position", async () => {
+		const kv = await openKv(":memory:", { changeLog: { maxCount: 10 } });
+		const op = kv.atomic();
+		for (let i = 0; i < 1000; i++) op.set(["n", i], i);
+		await op.commit();
+
+		const reader = kv.changes({ since: 0 }).getReader();
+		await expect(reader.read()).rejects.toThrow(
+			"Changes after seq 0 are no longer retained",
+		);
+
+		const tail = kv.changes<number>().getReader();
+		const events = await take(tail, 10);
+		expect(events[0]?.key).toEqual(["n", 990]);
+
+		tail.cancel();
+		await kv.close();
+	});
+
+	test("trims the log written by short-lived sessions", async () => {
+		for (let session = 0; session < 50; session++) {
+			const kv = await openKv(DB_PATH, { changeLog: { maxCount: 5 } });
+			for (let i = 0; i < 20; i++) await kv.set(["n", session, i], i);
+			await kv.close();
+		}
+
+		const db = new Database(DB_PATH, { readonly: true });
+		const { count } = db
+			.query("SELECT COUNT(*) AS count FROM changes")
+			.get() as {
+			count: number;
+		};
+		db.close();
+		// Trimmed on open; only the last session's writes exceed maxCount
+		expect(count).toBe(25);
+	});
+
+	test("counts writes from every connection towards a trim", async () => {
+		const a = await openKv(DB_PATH, { changeLog: { maxCount: 5 } });
+		const b = await openKv(DB_PATH, { changeLog: { maxCount: 5 } });
+		for (let i = 0; i < 600; i++) {
+			await a.set(["a", i], i);
+			await b.set(["b", i], i);
+		}
+		await a.close();
+		await b.close();
+
+		const db = new Database(DB_PATH, { readonly: true });
+		const { count } = db
+			.query("SELECT COUNT(*) AS count FROM changes")
+			.get() as {
+			count: number;
+		};
+		db.close();
+		// Trimmed to 5 rows at the 1000th write, 200 written since
+		expect(count).toBe(205);
+	});
+
+	test("rejects invalid retention options", () => {
+		for (const changeLog of [
+			{ maxAge: 0 },
+			{ maxAge: Number.NaN },
+			{ maxCount: 0 },
+			{ maxCount: 2.5 },
+		]) {
+			expect(() => new BunKV(":memory:", { changeLog })).toThrow(
+				KvInvalidArgumentError,
+			);
+		}
+	});
+
+	test("sees writes from another connection", async () => {
+		const feed = await openKv(DB_PATH, { changePollInterval: 10 });
+		const writer = await openKv(DB_PATH);
+
+		const reader = feed.changes().getReader();
+		const next = reader.read();
+		await writer.set(["remote"], "hello");
+		const { value } = await next;
+		expect(value?.key).toEqual(["remote"]);
+		expect(value?.value).toBe("hello");
+
+		reader.cancel();
+		await writer.close();
+		await feed.close();
+	});
+
+	test("ends when the store is closed", async () => {
+		const kv = await openKv();
+		const reader = kv.changes().getReader();
+		const next = reader.read();
+		await kv.close();
+		expect((await next).done).toBe(true);
+	});
+});
@@ -0,0 +1,84 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { encodeKey } from "../src/encoding";
+import { jsonCodec, type KvValueCodec, openKv } from "../src/index";
+
+const DB_PATH = "./tests/data/test_codec.sqlite";
+
+describe("Value Codecs", () => {
+	afterEach(() => {
+		if (existsSync(DB_PATH)) {
+			unlinkSync(DB_PATH);
+		}
+	});
+
+	test("structured clone round-trips rich values", async () => {
+		const kv = await openKv(":memory:");
+		const value = {
+			date: new Date(1700000000000),
+			map: new Map([["a", 1]]),
+			set: new Set([1, 2]),
+			big: 12345678901234567890n,
+			bytes: new Uint8Array([0, 1, 2]),
+			missing: undefined,
+			pattern: /ab+c/gi,
+		};
+
+		await kv.set(["rich"], value);
+		await kv.atomic().set(["rich", "atomic"], value).commit();
+
+		expect((await kv.get(["rich"])).value).toEqual(value);
+		const listed = [];
+		for await (const entry of kv.list({ prefix: ["rich"] })) {
+			listed.push(entry.value);
+		}
+		expect(listed).toEqual([value, value]);
+
+		await kv.set(["undef"], undefined);
+		const entry = await kv.get(["undef"]);
+		expect(entry.value).toBeUndefined();
+		expect(entry.version).toBeString();
+		await kv.close();
+	});
+
+	test("legacy JSON rows stay readable", async () => {
+		const kv0 = await openKv(DB_PATH);
+		await kv0.set(["new"], new Date(0));
+		await kv0.close();
+
+		const db = new Database(DB_PATH);
+		db.run(
+			"INSERT INTO kv (pk, value, value_encoding, version) VALUES (?, ?, NULL, ?)",
+			[encodeKey(["legacy"]), '{"a":1}', "v1"],
+		);
+		db.close();
+
+		const kv = await openKv(DB_PATH);
+		expect((await kv.get(["legacy"])).value).toEqual({ a: 1 });
+		expect((await kv.get(["new"])).value).toEqual(new Date(0));
+		await kv.close();
+	});
+
+	test("rows are decoded with the codec that wrote them", async () => {
+		const kv1 = await openKv(DB_PATH, { codec: jsonCodec });
+		await kv1.set(["json"], { a: 1 });
+		await kv1.close();
+
+		const upper: KvValueCodec = {
+			name: "upper",
+			encode: (value) => String(value).toUpperCase(),
+			decode: (data) => `decoded:${data}`,
+		};
+		const kv2 = await openKv(DB_PATH, { codec: upper });
+		await kv2.set(["custom"], "hello");
+		expect((await kv2.get(["json"])).value).toEqual({ a: 1 });
+		expect((await kv2.get(["custom"])).value).toBe("decoded:HELLO");
+		await kv2.close();
+
+		// A store without the custom codec cannot decode its rows
+		const kv3 = await openKv(DB_PATH);
+		await expect(kv3.get(["custom"])).rejects.toThrow("Unknown value encoding");
+		await kv3.close();
+	});
+});
@@ -0,0 +1,127 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { encodeKey } from "../src/encoding";
+import {
+	BunKV,
+	jsonCodec,
+	type KvCompressionOptions,
+	type KvEntryMaybe,
+	KvInvalidArgumentError,
+	openKv,
+} from "../src/index";
+
+const DB_PATH = "./tests/data/test_compression.sqlite";
+
+const doc = {
+	title: "report",
+	body: "lorem ipsum dolor sit amet ".repeat(400),
+};
+
+function storedRow(key: (string | number)[]) {
+	const db = new Database(DB_PATH, { readonly: true });
+	const row = db
+		.query("SELECT length(value) AS size, value_encoding FROM kv WHERE pk = ?")
+		.get(encodeKey(key)) as { size: number; value_encoding: string };
+	db.close();
+	return row;
+}
+
+describe("Value Compression", () => {
+	afterEach(() => {
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) unlinkSync(DB_PATH + suffix);
+		}
+	});
+
+	for (const algorithm of ["gzip", "zstd"] as const) {
+		test(`${algorithm} compresses large values and reads them back`, async () => {
+			const kv = await openKv(DB_PATH, { compression: { algorithm } });
+			await kv.set(["docs", 1], doc);
+			await kv.atomic().set(["docs", 2], doc).commit();
+			await kv.set(["docs", "small"], { title: "tiny" });
+
+			expect((await kv.get(["docs", 1])).value).toEqual(doc);
+			const listed = [];
+			for await (const entry of kv.list({ prefix: ["docs"] })) {
+				listed.push(entry.value);
+			}
+			expect(listed).toEqual([{ title: "tiny" }, doc, doc]);
+			await kv.close();
+
+			const large = storedRow(["docs", 1]);
+			expect(large.value_encoding).toBe(`structured-clone+${algorithm}`);
+			expect(large.size).toBeLessThan(doc.body.length / 10);
+			expect(storedRow(["docs", "small"]).value_encoding).toBe(
+				"structured-clone",
+			);
+		});
+	}
+
+	test("watch and queues decompress transparently", async () => {
+		const kv = await openKv(":memory:", {
+			compression: { algorithm: "zstd", threshold: 0 },
+		});
+		const reader = kv.watch([["docs", 1]]).getReader();
+		await reader.read();
+		await kv.set(["docs", 1], doc);
+		const { value } = (await reader.read()) as {
+			value: KvEntryMaybe<typeof doc>[];
+		};
+		expect(value[0]?.value).toEqual(doc);
+		await reader.cancel();
+
+		const received = new Promise((resolve) => kv.listenQueue(resolve));
+		await kv.enqueue(doc);
+		expect(await received).toEqual(doc);
+		await kv.close();
+	});
+
+	test("rows stay readable when compression is turned on or off", async () => {
+		const plain = await openKv(DB_PATH, { codec: jsonCodec });
+		await plain.set(["plain"], doc);
+		await plain.close();
+
+		const compressed = await openKv(DB_PATH, {
+			codec: jsonCodec,
+			compression: { algorithm: "gzip", level: 9 },
+		});
+		expect((await compressed.get(["plain"])).value).toEqual(doc);
+		await compressed.set(["gzip"], doc);
+		await compressed.close();
+		expect(storedRow(["plain"]).value_encoding).toBe("json");
+		expect(storedRow(["gzip"]).value_encoding).toBe("json+gzip");
+
+		const reopened = await openKv(DB_PATH);
+		expect((await reopened.get(["gzip"])).value).toEqual(doc);
+		await reopened.close();
+	});
+
+	test("incompressible values are stored as is", async () => {
+		const kv = await openKv(DB_PATH, {
+			compression: { algorithm: "gzip", threshold: 16 },
+		});
+		await kv.set(["random"], crypto.getRandomValues(new Uint8Array(4096)));
+		await kv.close();
+		expect(storedRow(["random"]).value_encoding).toBe("structured-clone");
+	});
+
+	test("validates options", () => {
+		for (const compression of [
+			{ algorithm: "brotli" },
+			{ algorithm: "gzip", threshold: -1 },
+			{ algorithm: "gzip", level: 10 },
+			{ algorithm: "zstd", level: 0 },
+		]) {
+			expect(
+				() =>
+					new BunKV(":memory:", {
+						compression: compression as KvCompressionOptions,
+					}),
+			).toThrow(KvInvalidArgumentError);
+		}
+		expect(
+			() => new BunKV(":memory:", { codec: { ...jsonCodec, name: "json+v2" } }),
+		).toThrow("Codec name must not contain '+': json+v2");
+	});
+});
@@ -0,0 +1,101 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { BunKV, KvDatabaseError, openKv } from "../src/index";
+
+const DB_PATH = "./tests/data/test_crossprocess.sqlite";
+
+describe("Cross-process Watch", () => {
+	afterEach(() => {
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) {
+				unlinkSync(DB_PATH + suffix);
+			}
+		}
+	});
+
+	test("watch sees writes from another connection", async () => {
+		const watcher = await openKv(DB_PATH, { changePollInterval: 10 });
+		const writer = await openKv(DB_PATH);
+
+		const reader = watcher.watch([["shared"]]).getReader();
+		const { value: init } = await reader.read();
+		expect(init?.[0]?.value).toBeNull();
+
+		await writer.set(["unrelated"], 1);
+		await writer.set(["shared"], "from writer");
+		const { value: update } = await reader.read();
+		expect(update?.[0]?.value).toBe("from writer");
+
+		await writer.delete(["shared"]);
+		const { value: deleted } = await reader.read();
+		expect(deleted?.[0]?.value).toBeNull();
+
+		reader.cancel();
+		await writer.close();
+		await watcher.close();
+	});
+
+	test("watch sees writes from another process", async () => {
+		const watcher = await openKv(DB_PATH, { changePollInterval: 10 });
+		const reader = watcher.watch([["cli"]]).getReader();
+		await reader.read();
+
+		const child = Bun.spawn([
+			process.execPath,
+			"-e",
+			`import { openKv } from "${import.meta.dir}/../src/index";
+			const kv = await openKv("${DB_PATH}");
+			await kv.set(["cli"], "from cli");
+			await kv.close();`,
+		]);
+		expect(await child.exited).toBe(0);
+
+		const { value } = await reader.read();
+		expect(value?.[0]?.value).toBe("from cli");
+
+		reader.cancel();
+		await watcher.close();
+	});
+
+	test("a failed poll is reported and retried", async () => {
+		const errors: unknown[] = [];
+		// Outside WAL mode, a writer's exclusive lock blocks reads too
+		const options = { journalMode: "delete", busyTimeout: 1 } as const;
+		const watcher = await openKv(DB_PATH, {
+			...options,
+			changePollInterval: 10,
+			onError: (error, job) => {
+				expect(job).toBe("changePoller");
+				errors.push(error);
+			},
+		});
+		const writer = await openKv(DB_PATH, options);
+		const reader = watcher.watch([["shared"]]).getReader();
+		await reader.read();
+
+		await writer.set(["shared"], "locked");
+		const other = new Database(DB_PATH);
+		other.run("BEGIN EXCLUSIVE");
+		await Bun.sleep(50);
+		expect(errors.length).toBeGreaterThan(0);
+		expect(errors[0]).toBeInstanceOf(KvDatabaseError);
+
+		other.run("COMMIT");
+		other.close();
+		const { value } = await reader.read();
+		expect(value?.[0]?.value).toBe("locked");
+
+		reader.cancel();
+		await writer.close();
+		await watcher.close();
+	});
+
+	test("rejects an invalid poll interval", () => {
+		for (const changePollInterval of [0, -1, Number.NaN]) {
+			expect(() => new BunKV(DB_PATH, { changePollInterval })).toThrow(
+				"Invalid option 'changePollInterval': expected a positive number",
+			);
+		}
+	});
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from "bun:test";
-import { encodeKey } from "../src/encoding";
+import { decodeKey, encodeKey } from "../src/encoding";
 import type { KvKey } from "../src/types";
 
 function compare(a: KvKey, b: KvKey) {
@@ -79,4 +79,33 @@ describe("Key Encoding", () => {
 		// So 61 00 < 61 00 FF ... Correct.
 		expect(compare(["a"], ["a\0"])).toBeLessThan(0);
 	});
+
+	test("decodeKey is the inverse of encodeKey", () => {
+		const keys: KvKey[] = [
+			[],
+			["users", "alice"],
+			["a\0b", "\0", ""],
+			[0, -0, 1.5, -2.25, Infinity, -Infinity, Number.MAX_SAFE_INTEGER],
+			[0n, -1n, 2n ** 63n - 1n, -(2n ** 63n)],
+			[true, false],
+			[new Uint8Array([]), new Uint8Array([0, 255, 0, 1])],
+			["mixed", 1, 2n, true, new Uint8Array([0]), "tail"],
+		];
+		for (const key of keys) {
+			expect(decodeKey(encodeKey(key))).toEqual(key);
+		}
+		expect(Object.is(decodeKey(encodeKey([-0]))[0], -0)).toBe(true);
+		expect(decodeKey(encodeKey([Number.NaN]))[0]).toBeNaN();
+	});
+
+	test("decodeKey rejects malformed input", () => {
+		expect(() => decodeKey(new Uint8Array([0x99]))).toThrow();
+		expect(() => decodeKey(new Uint8Array([0x20, 0x61]))).toThrow();
+		expect(() => decodeKey(new Uint8Array([0x30, 1, 2]))).toThrow();
+	});
+
+	test("rejects bigints outside the 64-bit range", () => {
+		expect(() => encodeKey([2n ** 63n])).toThrow();
+		expect(() => encodeKey([-(2n ** 63n) - 1n])).toThrow();
+	});
 });
@@ -0,0 +1,230 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { encodeKey } from "../src/encoding";
+import {
+	BunKV,
+	type KvEncryptionOptions,
+	KvInvalidArgumentError,
+	KvInvalidStateError,
+	KvInvalidValueError,
+	KvU64,
+	openKv,
+} from "../src/index";
+
+const DB_PATH = "./tests/data/test_encryption.sqlite";
+
+const k1 = new Uint8Array(32).fill(1);
+const k2 = new Uint8Array(32).fill(2);
+
+function rawRow(key: (string | number)[]) {
+	const db = new Database(DB_PATH, { readonly: true });
+	const row = db
+		.query("SELECT value, value_encoding FROM kv WHERE pk = ?")
+		.get(encodeKey(key)) as {
+		value: Uint8Array<ArrayBuffer>;
+		value_encoding: string;
+	};
+	db.close();
+	return row;
+}
+
+describe("Encryption at Rest", () => {
+	afterEach(() => {
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) unlinkSync(DB_PATH + suffix);
+		}
+	});
+
+	test("values are encrypted on disk and read back transparently", async () => {
+		const kv = await openKv(DB_PATH, {
+			encryption: { keys: { k1 }, currentKeyId: "k1" },
+		});
+		await kv.set(["users", "alice"], { ssn: "123-45-6789" });
+		await kv.atomic().sum(["users", "count"], 1n).commit();
+
+		expect((await kv.get(["users", "alice"])).value).toEqual({
+			ssn: "123-45-6789",
+		});
+		const listed = [];
+		for await (const entry of kv.list({ prefix: ["users"] })) {
+			listed.push(entry.key);
+		}
+		expect(listed).toEqual([
+			["users", "alice"],
+			["users", "count"],
+		]);
+		await kv.atomic().sum(["users", "count"], 1n).commit();
+		expect((await kv.get<KvU64>(["users", "count"])).value).toEqual(
+			new KvU64(2n),
+		);
+		await kv.close();
+
+		const row = rawRow(["users", "alice"]);
+		expect(row.value_encoding).toBe("structured-clone+aes-gcm:k1");
+		expect(Buffer.from(row.value).includes("123-45-6789")).toBe(false);
+		expect(rawRow(["users", "count"]).value_encoding).toBe("u64+aes-gcm:k1");
+	});
+
+	test("ciphertexts cannot be moved between rows", async () => {
+		const kv = await openKv(DB_PATH, {
+			encryption: { keys: { k1 }, currentKeyId: "k1" },
+		});
+		await kv.set(["users", "alice"], "alice's data");
+		await kv.set(["users", "bob"], "bob's data");
+
+		const db = new Database(DB_PATH);
+		db.run(
+			"UPDATE kv SET value = (SELECT value FROM kv WHERE pk = ?) WHERE pk = ?",
+			[encodeKey(["users", "alice"]), encodeKey(["users", "bob"])],
+		);
+		db.close();
+
+		await expect(kv.get(["users", "bob"])).rejects.toThrow(KvInvalidValueError);
+		await kv.close();
+	});
+
+	test("rotates keys with reencrypt", async () => {
+		const plain = await openKv(DB_PATH);
+		await plain.set(["legacy"], "written before encryption");
+		await plain.close();
+
+		const first = await openKv(DB_PATH, {
+			encryption: { keys: { k1 }, currentKeyId: "k1" },
+		});
+		await first.set(["a"], "secret");
+		await first.enqueue("pending message", { delay: 60_000 });
+		await first.close();
+
+		const rotating = await openKv(DB_PATH, {
+			encryption: { keys: { k1, k2 }, currentKeyId: "k2" },
+		});
+		expect((await rotating.get(["a"])).value).toBe("secret");
+		expect(await rotating.reencrypt({ batchSize: 1 })).toBe(3);
+		expect(await rotating.reencrypt()).toBe(0);
+		await rotating.close();
+		expect(rawRow(["a"]).value_encoding).toBe("structured-clone+aes-gcm:k2");
+		expect(rawRow(["legacy"]).value_encoding).toBe(
+			"structured-clone+aes-gcm:k2",
+		);
+
+		const rotated = await openKv(DB_PATH, {
+			encryption: { keys: { k2 }, currentKeyId: "k2" },
+		});
+		expect((await rotated.get(["a"])).value).toBe("secret");
+		expect((await rotated.get(["legacy"])).value).toBe(
+			"written before encryption",
+		);
+		await rotated.close();
+
+		const wrongKey = await openKv(DB_PATH, {
+			encryption: { keys: { k1 }, currentKeyId: "k1" },
+		});
+		await expect(wrongKey.get(["a"])).rejects.toThrow(
+			"Value is encrypted with an unknown key: k2",
+		);
+		await wrongKey.close();
+	});
+
+	test("accepts WebCrypto keys and stays WebCrypto compatible", async () => {
+		const key = await crypto.subtle.generateKey(
+			{ name: "AES-GCM", length: 256 },
+			true,
+			["encrypt", "decrypt"],
+		);
+		const kv = await openKv(DB_PATH, {
+			codec: { name: "text", encode: String, decode: String },
+			compression: { algorithm: "gzip", threshold: 0 },
+			encryption: { keys: { web: key }, currentKeyId: "web" },
+		});
+		await kv.set(["doc"], "x".repeat(1000));
+		await kv.close();
+
+		const row = rawRow(["doc"]);
+		expect(row.value_encoding).toBe("text+gzip+aes-gcm:web");
+		const compressed = await crypto.subtle.decrypt(
+			{
+				name: "AES-GCM",
+				iv: row.value.subarray(0, 12),
+				additionalData: encodeKey(["doc"]) as Uint8Array<ArrayBuffer>,
+			},
+			key,
+			row.value.subarray(12),
+		);
+		expect(new TextDecoder().decode(Bun.gunzipSync(compressed))).toBe(
+			"x".repeat(1000),
+		);
+	});
+
+	test("undelivered queue messages are re-encrypted for their keys", async () => {
+		const kv = await openKv(":memory:", {
+			encryption: { keys: { k1 }, currentKeyId: "k1" },
+		});
+		kv.listenQueue(() => {
+			throw new Error("handler failed");
+		});
+		await kv.enqueue("dead letter", {
+			backoffSchedule: [],
+			keysIfUndelivered: [["dead"]],
+		});
+		for (let i = 0; i < 100; i++) {
+			if ((await kv.get(["dead"])).value !== null) break;
+			await Bun.sleep(10);
+		}
+		expect((await kv.get(["dead"])).value).toBe("dead letter");
+		await kv.close();
+	});
+
+	test("secondary indexes are refused, and plaintext index rows dropped", async () => {
+		const plain = await openKv(DB_PATH);
+		await plain.defineIndex<{ email: string }>("byEmail", {
+			prefix: ["users"],
+			on: (user) => user.email,
+		});
+		await plain.set(["users", "alice"], { email: "alice@example.com" });
+		await plain.close();
+
+		const kv = await openKv(DB_PATH, {
+			encryption: { keys: { k1 }, currentKeyId: "k1" },
+		});
+		await expect(
+			kv.defineIndex("byEmail", { prefix: ["users"], on: () => "x" }),
+		).rejects.toBeInstanceOf(KvInvalidStateError);
+		await kv.close();
+
+		const db = new Database(DB_PATH, { readonly: true });
+		const row = db.query("SELECT count(*) AS n FROM kv_index").get() as {
+			n: number;
+		};
+		db.close();
+		expect(row.n).toBe(0);
+	});
+
+	test("validates options", async () => {
+		const invalid: KvEncryptionOptions[] = [
+			{ keys: { k1 }, currentKeyId: "k2" },
+			{ keys: { k1: new Uint8Array(10) }, currentKeyId: "k1" },
+			{ keys: { "k+1": k1 }, currentKeyId: "k+1" },
+		];
+		for (const encryption of invalid) {
+			expect(() => new BunKV(":memory:", { encryption })).toThrow(
+				KvInvalidArgumentError,
+			);
+		}
+		const hidden = await crypto.subtle.generateKey(
+			{ name: "AES-GCM", length: 128 },
+			false,
+			["encrypt"],
+		);
+		expect(
+			() =>
+				new BunKV(":memory:", {
+					encryption: { keys: { hidden }, currentKeyId: "hidden" },
+				}),
+		).toThrow(KvInvalidArgumentError);
+
+		const kv = await openKv();
+		await expect(kv.reencrypt()).rejects.toBeInstanceOf(KvInvalidStateError);
+		await kv.close();
+	});
+});
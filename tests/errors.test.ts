@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import {
+	KvCheckError,
+	KvDatabaseError,
+	KvError,
+	KvInvalidKeyError,
+	KvNotFoundError,
+	KvUniqueConflictError,
+	openKv,
+} from "../src/index";
+
+const DIR = "./tests/data/errors";
+
+describe("Errors", () => {
+	afterEach(() => {
+		rmSync(DIR, { recursive: true, force: true });
+	});
+
+	test("failed commits report which check failed and why", async () => {
+		const kv = await openKv();
+		const { version } = (await kv.set(["a"], 1)) as { version: string };
+		await kv.set(["b"], 1);
+
+		const res = await kv
+			.atomic()
+			.check(["a"], version)
+			.check(["b"], null)
+			.set(["c"], 1)
+			.commit();
+		expect(res.ok).toBe(false);
+		if (res.ok) return;
+		expect(res.error).toBeInstanceOf(KvCheckError);
+		expect(res.error.code).toBe("CHECK_FAILED");
+		expect(res.error.message).toBe("Check failed: key exists");
+		const error = res.error as KvCheckError;
+		expect(error.check).toBe(1);
+		expect(error.key).toEqual(["b"]);
+		expect(error.expected).toBeNull();
+		expect(error.actual).toMatch(/^[0-9a-f]{20}$/);
+
+		const stale = await kv.atomic().check(["a"], "0".repeat(20)).commit();
+		expect(stale.ok).toBe(false);
+		if (stale.ok) return;
+		expect(stale.error.message).toBe("Check failed: version mismatch");
+		expect((stale.error as KvCheckError).actual).toBe(version);
+
+		await kv.close();
+	});
+
+	test("unique index conflicts are reported, not thrown", async () => {
+		const kv = await openKv();
+		await kv.defineIndex<{ email: string }>("byEmail", {
+			prefix: ["users"],
+			on: (user) => user.email,
+			unique: true,
+		});
+		await kv.set(["users", 1n], { email: "x" });
+		const res = await kv.atomic().set(["users", 2n], { email: "x" }).commit();
+		expect(res.ok).toBe(false);
+		if (res.ok) return;
+		expect(res.error).toBeInstanceOf(KvUniqueConflictError);
+		expect(res.error.code).toBe("UNIQUE_CONFLICT");
+		expect((res.error as KvUniqueConflictError).index).toBe("byEmail");
+		expect((res.error as KvUniqueConflictError).key).toEqual(["users", 2n]);
+		await kv.close();
+	});
+
+	test("invalid keys throw instead of failing the commit", async () => {
+		const kv = await openKv();
+		const bad = [Symbol("x")] as unknown as [string];
+		await expect(kv.atomic().set(bad, 1).commit()).rejects.toThrow(
+			KvInvalidKeyError,
+		);
+		await expect(kv.atomic().check(bad, null).commit()).rejects.toThrow(
+			KvInvalidKeyError,
+		);
+		await kv.close();
+	});
+
+	test("SQLite failures surface as KvDatabaseError", async () => {
+		const writer = await openKv(`${DIR}/db.sqlite`);
+		await writer.close();
+		const kv = await openKv(`${DIR}/db.sqlite`, { readonly: true });
+
+		const error = await kv
+			.atomic()
+			.set(["a"], 1)
+			.commit()
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(KvDatabaseError);
+		expect(error.code).toBe("DATABASE_ERROR");
+		expect(error.sqliteCode).toBe("SQLITE_READONLY");
+		expect(error.cause).toBeInstanceOf(Error);
+		await expect(kv.set(["a"], 1)).rejects.toThrow(KvDatabaseError);
+		await kv.close();
+	});
+
+	test("every error is a KvError with a stable code", async () => {
+		const kv = await openKv();
+		const error = await kv.lookup("missing", 1).catch((e) => e);
+		expect(error).toBeInstanceOf(KvNotFoundError);
+		expect(error).toBeInstanceOf(KvError);
+		expect(error.code).toBe("NOT_FOUND");
+		expect(error.name).toBe("KvNotFoundError");
+		await kv.close();
+	});
+});
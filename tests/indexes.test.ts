@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { type BunKV, openKv } from "../src/index";
+
+interface User {
+	email: string;
+	age: number;
+	team?: string;
+}
+
+describe("Secondary Indexes", () => {
+	let kv: BunKV;
+
+	beforeEach(async () => {
+		kv = await openKv();
+	});
+
+	afterEach(async () => {
+		await kv.close();
+	});
+
+	test("indexes existing entries and follows writes", async () => {
+		await kv.set(["users", "alice"], { email: "a@x.io", age: 30 });
+		await kv.defineIndex<User>("usersByEmail", {
+			prefix: ["users"],
+			on: (user) => user.email,
+			unique: true,
+		});
+
+		let found = await kv.lookup<User>("usersByEmail", "a@x.io");
+		expect(found.map((e) => e.key)).toEqual([["users", "alice"]]);
+
+		await kv.set(["users", "alice"], { email: "alice@x.io", age: 30 });
+		expect(await kv.lookup("usersByEmail", "a@x.io")).toEqual([]);
+		found = await kv.lookup<User>("usersByEmail", "alice@x.io");
+		expect(found[0]?.value.age).toBe(30);
+
+		await kv.delete(["users", "alice"]);
+		expect(await kv.lookup("usersByEmail", "alice@x.io")).toEqual([]);
+	});
+
+	test("unique conflicts fail the commit", async () => {
+		await kv.defineIndex<User>("usersByEmail", {
+			prefix: ["users"],
+			on: (user) => user.email,
+			unique: true,
+		});
+		await kv.set(["users", "alice"], { email: "same@x.io", age: 30 });
+
+		await expect(
+			kv.set(["users", "bob"], { email: "same@x.io", age: 40 }),
+		).rejects.toThrow("Unique index 'usersByEmail' already has an entry");
+		const result = await kv
+			.atomic()
+			.set(["users", "carol"], { email: "c@x.io", age: 20 })
+			.set(["users", "dave"], { email: "same@x.io", age: 50 })
+			.commit();
+		expect(result.ok).toBe(false);
+		expect((await kv.get(["users", "carol"])).value).toBeNull();
+		expect((await kv.get(["users", "bob"])).value).toBeNull();
+
+		// Rewriting the holder of a value is not a conflict
+		await kv.set(["users", "alice"], { email: "same@x.io", age: 31 });
+	});
+
+	test("values can move between keys in one commit", async () => {
+		await kv.defineIndex<User>("usersByEmail", {
+			prefix: ["users"],
+			on: (user) => user.email,
+			unique: true,
+		});
+		await kv.set(["users", "a"], { email: "one@x.io", age: 1 });
+		await kv.set(["users", "b"], { email: "two@x.io", age: 2 });
+
+		const result = await kv
+			.atomic()
+			.set(["users", "a"], { email: "two@x.io", age: 1 })
+			.set(["users", "b"], { email: "one@x.io", age: 2 })
+			.commit();
+		expect(result.ok).toBe(true);
+		const [owner] = await kv.lookup("usersByEmail", "one@x.io");
+		expect(owner?.key).toEqual(["users", "b"]);
+	});
+
+	test("defineIndex rejects existing duplicates for unique indexes", async () => {
+		await kv.set(["users", "a"], { email: "dup@x.io", age: 1 });
+		await kv.set(["users", "b"], { email: "dup@x.io", age: 2 });
+		await expect(
+			kv.defineIndex<User>("usersByEmail", {
+				prefix: ["users"],
+				on: (user) => user.email,
+				unique: true,
+			}),
+		).rejects.toThrow("already has an entry");
+		await expect(kv.lookup("usersByEmail", "dup@x.io")).rejects.toThrow(
+			"Index not defined: usersByEmail",
+		);
+	});
+
+	test("range queries and non-unique lookups", async () => {
+		await kv.defineIndex<User>("usersByAge", {
+			prefix: ["users"],
+			on: (user) => user.age,
+		});
+		await kv.defineIndex<User>("usersByTeam", {
+			prefix: ["users"],
+			on: (user, key) => (user.team ? [user.team, key[1] as string] : null),
+		});
+		await kv.set(["users", "a"], { email: "a", age: 40, team: "red" });
+		await kv.set(["users", "b"], { email: "b", age: 20, team: "red" });
+		await kv.set(["users", "c"], { email: "c", age: 30 });
+		await kv.set(["users", "d"], { email: "d", age: 20, team: "blue" });
+		await kv.set(["other", "e"], { email: "e", age: 25 });
+
+		const keys = async (iter: AsyncIterable<{ key: unknown }>) => {
+			const out = [];
+			for await (const entry of iter) out.push(entry.key);
+			return out;
+		};
+		expect(
+			await keys(kv.listIndex("usersByAge", { start: [20], end: [35] })),
+		).toEqual([
+			["users", "b"],
+			["users", "d"],
+			["users", "c"],
+		]);
+		expect(
+			await keys(
+				kv.listIndex("usersByAge", { prefix: [] }, { reverse: true, limit: 2 }),
+			),
+		).toEqual([
+			["users", "a"],
+			["users", "c"],
+		]);
+		expect(
+			await keys(kv.listIndex("usersByTeam", { prefix: ["red"] })),
+		).toEqual([
+			["users", "a"],
+			["users", "b"],
+		]);
+		expect((await kv.lookup("usersByAge", 20)).map((e) => e.key)).toEqual([
+			["users", "b"],
+			["users", "d"],
+		]);
+		expect(await kv.lookup("usersByTeam", ["blue", "d"])).toHaveLength(1);
+	});
+
+	test("expired entries leave the index", async () => {
+		await kv.defineIndex<User>("usersByEmail", {
+			prefix: ["users"],
+			on: (user) => user.email,
+			unique: true,
+		});
+		await kv.set(
+			["users", "tmp"],
+			{ email: "t@x.io", age: 1 },
+			{ expireIn: 1 },
+		);
+		await Bun.sleep(5);
+		expect(await kv.lookup("usersByEmail", "t@x.io")).toEqual([]);
+		// The expired holder does not block a new one
+		await kv.set(["users", "new"], { email: "t@x.io", age: 2 });
+		await kv.sweepExpired();
+		const found = await kv.lookup("usersByEmail", "t@x.io");
+		expect(found.map((e) => e.key)).toEqual([["users", "new"]]);
+	});
+});
@@ -19,6 +19,54 @@ describe("BunKV", () => {
 		expect(entry.version).toBeString();
 	});
 
+	test("getMany returns entries in input order", async () => {
+		await kv.set(["m", "a"], "A");
+		await kv.set(["m", "c"], "C");
+
+		const entries = await kv.getMany<string>([
+			["m", "c"],
+			["m", "missing"],
+			["m", "a"],
+			["m", "c"],
+		]);
+
+		expect(entries.map((e) => e.value)).toEqual(["C", null, "A", "C"]);
+		expect(entries.map((e) => e.key)).toEqual([
+			["m", "c"],
+			["m", "missing"],
+			["m", "a"],
+			["m", "c"],
+		]);
+		expect(entries[1]?.version).toBeNull();
+		expect(await kv.getMany([])).toEqual([]);
+	});
+
+	test("getMany handles more keys than one statement binds", async () => {
+		const keys = [];
+		for (let i = 0; i < 1200; i++) {
+			keys.push(["bulk", i]);
+		}
+		const op = kv.atomic();
+		for (const key of keys) op.set(key, key[1]);
+		await op.commit();
+
+		const entries = await kv.getMany<number>(keys);
+		expect(entries.length).toBe(1200);
+		expect(entries.every((e, i) => e.value === i)).toBe(true);
+	});
+
+	test("getMany treats expired keys as missing", async () => {
+		await kv.set(["ttl", 1], "gone", { expireIn: 10 });
+		await kv.set(["ttl", 2], "kept");
+		await new Promise((r) => setTimeout(r, 20));
+
+		const entries = await kv.getMany([
+			["ttl", 1],
+			["ttl", 2],
+		]);
+		expect(entries.map((e) => e.value)).toEqual([null, "kept"]);
+	});
+
 	test("delete", async () => {
 		await kv.set(["temp"], "deleteme");
 		await kv.delete(["temp"]);
@@ -39,6 +87,11 @@ describe("BunKV", () => {
 		expect(entries.length).toBe(2);
 		expect(entries[0]?.key).toEqual(["users", "alice"]);
 		expect(entries[1]?.key).toEqual(["users", "bob"]);
+
+		const all = [];
+		for await (const entry of kv.list({ prefix: [] })) all.push(entry.key);
+		expect(all).toContainEqual(["posts", "1"]);
+		expect(all).toContainEqual(["users", "bob"]);
 	});
 
 	test("ordering types", async () => {
@@ -64,6 +117,21 @@ describe("BunKV", () => {
 		expect(keys).toEqual(["string", 10, true]);
 	});
 
+	test("list round-trips bigint and Uint8Array keys", async () => {
+		const bytesKey = ["bin", new Uint8Array([0, 1, 255])];
+		const bigKey = ["big", 9007199254740993n];
+		await kv.set(bytesKey, "bytes");
+		await kv.set(bigKey, "big");
+
+		const bin = [];
+		for await (const entry of kv.list({ prefix: ["bin"] })) bin.push(entry.key);
+		expect(bin).toEqual([bytesKey]);
+
+		const big = [];
+		for await (const entry of kv.list({ prefix: ["big"] })) big.push(entry.key);
+		expect(big).toEqual([bigKey]);
+	});
+
 	test("ordering numbers", async () => {
 		await kv.set(["n", 10], 10);
 		await kv.set(["n", 2], 2);
@@ -130,4 +198,56 @@ describe("BunKV", () => {
 		expect(res.ok).toBe(false);
 		expect((await kv.get(["lock"])).value).toBe("taken");
 	});
+
+	test("list cursor pagination", async () => {
+		for (let i = 0; i < 5; i++) {
+			await kv.set(["page", i], i);
+		}
+		await kv.set(["other"], "x");
+
+		const pages: number[][] = [];
+		let cursor: string | undefined;
+		do {
+			const iter = kv.list<number>({ prefix: ["page"] }, { limit: 2, cursor });
+			const page = [];
+			for await (const entry of iter) {
+				page.push(entry.value);
+			}
+			pages.push(page);
+			cursor = iter.cursor;
+		} while (cursor);
+
+		expect(pages).toEqual([[0, 1], [2, 3], [4]]);
+	});
+
+	test("list cursor with reverse and range", async () => {
+		for (let i = 0; i < 6; i++) {
+			await kv.set(["r", i], i);
+		}
+
+		const first = kv.list<number>(
+			{ start: ["r", 1], end: ["r", 5] },
+			{ reverse: true, limit: 2 },
+		);
+		const firstValues = [];
+		for await (const entry of first) firstValues.push(entry.value);
+		expect(firstValues).toEqual([4, 3]);
+
+		const second = kv.list<number>(
+			{ start: ["r", 1], end: ["r", 5] },
+			{ reverse: true, cursor: first.cursor },
+		);
+		const secondValues = [];
+		for await (const entry of second) secondValues.push(entry.value);
+		expect(secondValues).toEqual([2, 1]);
+		expect(second.cursor).toBe("");
+	});
+
+	test("list cursor before iteration throws", () => {
+		const iter = kv.list({ prefix: ["none"] });
+		expect(() => iter.cursor).toThrow();
+		expect(() =>
+			kv.list({ prefix: [] }, { cursor: "not a cursor!" }),
+		).toThrow();
+	});
 });
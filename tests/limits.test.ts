@@ -1,5 +1,5 @@
 import { afterAll, beforeAll, describe, expect, test } from "bun:test";
-import { type BunKV, openKv } from "../src/index";
+import { BunKV, KvLimitExceededError, type KvU64, openKv } from "../src/index";
 
 describe("Size Limits", () => {
 	let kv: BunKV;
@@ -64,3 +64,77 @@ describe("Size Limits", () => {
 		expect((entry.value as string).length).toBe(size);
 	}, 30000); // Increase timeout
 });
+
+describe("Configured Limits", () => {
+	test("the deno preset rejects oversized keys and values before writing", async () => {
+		const kv = await openKv(":memory:", { limits: "deno" });
+
+		const error = await kv.set(["k", "x".repeat(3000)], 1).catch((e) => e);
+		expect(error).toBeInstanceOf(KvLimitExceededError);
+		expect(error.code).toBe("LIMIT_EXCEEDED");
+		expect(error.limit).toBe("maxKeySize");
+		expect(error.max).toBe(2048);
+
+		await expect(kv.set(["v"], "x".repeat(70_000))).rejects.toThrow(
+			"maxValueSize exceeded",
+		);
+		await expect(kv.enqueue(new Uint8Array(70_000))).rejects.toThrow(
+			KvLimitExceededError,
+		);
+		await kv.set(["v"], "x".repeat(60_000));
+		expect(((await kv.get(["v"])).value as string).length).toBe(60_000);
+
+		await kv.close();
+	});
+
+	test("limits atomic commits", async () => {
+		const kv = await openKv(":memory:", { limits: "deno" });
+
+		const many = kv.atomic();
+		for (let i = 0; i < 1001; i++) many.set(["n", i], i);
+		await expect(many.commit()).rejects.toThrow("maxMutations exceeded");
+
+		const checks = kv.atomic();
+		for (let i = 0; i < 101; i++) checks.check(["n", i], null);
+		await expect(checks.commit()).rejects.toThrow("maxChecks exceeded");
+
+		const big = kv.atomic();
+		for (let i = 0; i < 13; i++) big.set(["big", i], "x".repeat(65_000));
+		await expect(big.commit()).rejects.toThrow("maxCommitSize exceeded");
+		expect((await kv.get(["big", 0])).value).toBeNull();
+
+		const ok = await kv.atomic().sum(["c"], 1n).set(["n", 1], 1).commit();
+		expect(ok.ok).toBe(true);
+		expect((await kv.get<KvU64>(["c"])).value?.value).toBe(1n);
+
+		await kv.close();
+	});
+
+	test("values are measured before compression", async () => {
+		const kv = await openKv(":memory:", {
+			limits: "deno",
+			compression: { algorithm: "gzip" },
+		});
+		// Compresses to a few hundred bytes, but is still too large for Deno KV
+		await expect(kv.set(["v"], "x".repeat(500_000))).rejects.toThrow(
+			"maxValueSize exceeded",
+		);
+		await expect(
+			kv.atomic().set(["v"], "x".repeat(500_000)).commit(),
+		).rejects.toThrow("maxValueSize exceeded");
+		await kv.close();
+	});
+
+	test("custom limits and validation", async () => {
+		const kv = await openKv(":memory:", { limits: { maxValueSize: 64 } });
+		await kv.set(["long", "x".repeat(5000)], "short");
+		await expect(kv.set(["a"], "x".repeat(100))).rejects.toThrow(
+			KvLimitExceededError,
+		);
+		await kv.close();
+
+		expect(() => new BunKV(":memory:", { limits: { maxKeySize: 0 } })).toThrow(
+			"Invalid option 'limits.maxKeySize'",
+		);
+	});
+});
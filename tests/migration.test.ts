@@ -0,0 +1,130 @@
+import { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { encodeKey } from "../src/encoding";
+import { openKv } from "../src/index";
+
+const DB_PATH = "./tests/data/test_migration.sqlite";
+
+describe("Schema Migrations", () => {
+	afterEach(() => {
+		if (existsSync(DB_PATH)) {
+			unlinkSync(DB_PATH);
+		}
+	});
+
+	test("drops legacy key_json column and keeps rows", async () => {
+		// Create a database with the pre-migration schema
+		const kv0 = await openKv(DB_PATH);
+		await kv0.close();
+		const legacy = new Database(DB_PATH);
+		legacy.run("DROP TABLE kv");
+		legacy.run("DROP TABLE meta");
+		legacy.run(`
+			CREATE TABLE kv (
+				pk BLOB PRIMARY KEY,
+				key_json TEXT NOT NULL,
+				value_json TEXT,
+				version TEXT NOT NULL,
+				date_created INTEGER,
+				date_updated INTEGER,
+				date_expired INTEGER
+			) WITHOUT ROWID
+		`);
+		legacy.run(
+			"INSERT INTO kv (pk, key_json, value_json, version) VALUES (?, ?, ?, ?)",
+			[encodeKey(["legacy", 1]), '["legacy",1]', '"old"', "v1"],
+		);
+		legacy.close();
+
+		const kv = await openKv(DB_PATH);
+		const entries = [];
+		for await (const entry of kv.list({ prefix: ["legacy"] })) {
+			entries.push(entry);
+		}
+		expect(entries).toEqual([
+			{ key: ["legacy", 1], value: "old", version: "00000000000000000001" },
+		]);
+
+		await kv.set(["legacy", 2n], "new");
+		expect((await kv.get(["legacy", 2n])).value).toBe("new");
+		await kv.close();
+
+		const check = new Database(DB_PATH);
+		const columns = check.query("PRAGMA table_info(kv)").all() as {
+			name: string;
+		}[];
+		check.close();
+		expect(columns.map((c) => c.name)).not.toContain("key_json");
+	});
+
+	test("renumbers legacy ULID versions below new versionstamps", async () => {
+		const kv0 = await openKv(DB_PATH);
+		await kv0.close();
+		// A store written by a version that used ULIDs
+		const legacy = new Database(DB_PATH);
+		legacy.run("DELETE FROM meta");
+		const insert = legacy.query(
+			"INSERT INTO kv (pk, value, value_encoding, version) VALUES (?, ?, 'json', ?)",
+		);
+		insert.run(encodeKey(["b"]), '"b"', "01JABCDEFGHJKMNPQRSTVWXYZ1");
+		insert.run(encodeKey(["a"]), '"a"', "01JABCDEFGHJKMNPQRSTVWXYZ0");
+		legacy.close();
+
+		const kv = await openKv(DB_PATH);
+		const a = await kv.get(["a"]);
+		const b = await kv.get(["b"]);
+		expect(a.version).toMatch(/^[0-9a-f]{20}$/);
+		// Renumbered in their original order
+		expect((a.version as string) < (b.version as string)).toBe(true);
+
+		const res = await kv.set(["c"], "c");
+		if (!res.ok) throw new Error("set failed");
+		expect(res.version > (b.version as string)).toBe(true);
+
+		// Range checks order the renumbered rows before new writes
+		const stale = await kv
+			.atomic()
+			.checkRange({ prefix: [] }, b.version)
+			.commit();
+		expect(stale.ok).toBe(false);
+		const current = await kv
+			.atomic()
+			.checkRange({ prefix: [] }, res.version)
+			.commit();
+		expect(current.ok).toBe(true);
+		await kv.close();
+
+		// Runs only once: reopening keeps the versions
+		const reopened = await openKv(DB_PATH);
+		expect((await reopened.get(["a"])).version).toBe(a.version);
+		await reopened.close();
+	});
+
+	test("versions deletes logged without one", async () => {
+		const kv0 = await openKv(DB_PATH);
+		await kv0.set(["slots", 1], "a");
+		await kv0.delete(["slots", 1]);
+		await kv0.close();
+		// Logged by a version that left deletes unversioned
+		const legacy = new Database(DB_PATH);
+		legacy.run("UPDATE changes SET version = NULL WHERE type = 'delete'");
+		legacy.run("DELETE FROM meta WHERE key = 'change_versions_migrated'");
+		legacy.close();
+
+		const kv = await openKv(DB_PATH);
+		const res = await kv
+			.atomic()
+			.checkRange({ prefix: ["slots"] }, await kv.currentVersion())
+			.commit();
+		expect(res.ok).toBe(true);
+		await kv.close();
+
+		const check = new Database(DB_PATH);
+		const unversioned = check
+			.query("SELECT COUNT(*) AS count FROM changes WHERE version IS NULL")
+			.get() as { count: number };
+		check.close();
+		expect(unversioned.count).toBe(0);
+	});
+});
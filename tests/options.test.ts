@@ -0,0 +1,108 @@
+import type { Database } from "bun:sqlite";
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, rmSync } from "node:fs";
+import { openKv } from "../src/index";
+import { BunKV } from "../src/kv";
+
+const DIR = "./tests/data/options";
+const DB_PATH = `${DIR}/options.sqlite`;
+
+function pragma(kv: BunKV, name: string): unknown {
+	// Reach the connection to verify what was applied
+	const db = (kv as unknown as { db: Database }).db;
+	return Object.values(db.query(`PRAGMA ${name}`).get() as object)[0];
+}
+
+describe("Open Options", () => {
+	afterEach(() => {
+		rmSync(DIR, { recursive: true, force: true });
+	});
+
+	test("uses WAL and a busy timeout by default", async () => {
+		const kv = await openKv(DB_PATH);
+		expect(pragma(kv, "journal_mode")).toBe("wal");
+		expect(pragma(kv, "busy_timeout")).toBe(5000);
+		await kv.close();
+	});
+
+	test("applies connection pragmas", async () => {
+		const kv = await openKv(DB_PATH, {
+			journalMode: "delete",
+			synchronous: "normal",
+			busyTimeout: 250,
+			cacheSize: -4096,
+			mmapSize: 1 << 20,
+		});
+		expect(pragma(kv, "journal_mode")).toBe("delete");
+		expect(pragma(kv, "synchronous")).toBe(1);
+		expect(pragma(kv, "busy_timeout")).toBe(250);
+		expect(pragma(kv, "cache_size")).toBe(-4096);
+		expect(pragma(kv, "mmap_size")).toBe(1 << 20);
+		await kv.set(["ok"], true);
+		await kv.close();
+	});
+
+	test("validates options before opening", () => {
+		const cases: [object, string][] = [
+			[{ journalMode: "fast" }, "Invalid option 'journalMode'"],
+			[{ synchronous: "always" }, "Invalid option 'synchronous'"],
+			[{ busyTimeout: -1 }, "Invalid option 'busyTimeout'"],
+			[{ cacheSize: 1.5 }, "Invalid option 'cacheSize'"],
+			[{ mmapSize: -1 }, "Invalid option 'mmapSize'"],
+		];
+		for (const [options, message] of cases) {
+			expect(() => new BunKV(DB_PATH, options)).toThrow(message);
+		}
+		expect(existsSync(DB_PATH)).toBe(false);
+	});
+
+	test("openKv rejects invalid options instead of throwing", async () => {
+		const opening = openKv(DB_PATH, { busyTimeout: -1 });
+		expect(opening).toBeInstanceOf(Promise);
+		await expect(opening).rejects.toThrow("Invalid option 'busyTimeout'");
+	});
+
+	test("create: false refuses to create a missing file", async () => {
+		expect(() => new BunKV(DB_PATH, { create: false })).toThrow(
+			`Database not found: ${DB_PATH}`,
+		);
+		expect(existsSync(DB_PATH)).toBe(false);
+
+		const kv = await openKv(DB_PATH);
+		await kv.close();
+		const again = await openKv(DB_PATH, { create: false });
+		await again.close();
+	});
+
+	test("readonly stores read but do not write", async () => {
+		const writer = await openKv(DB_PATH);
+		await writer.set(["config"], "v1");
+		await writer.set(["tmp"], 1, { expireIn: 1 });
+
+		const reader = await openKv(DB_PATH, { readonly: true });
+		expect((await reader.get(["config"])).value).toBe("v1");
+		await Bun.sleep(5);
+		expect((await reader.get(["tmp"])).value).toBeNull();
+		await expect(reader.set(["config"], "v2")).rejects.toThrow("readonly");
+
+		await writer.set(["config"], "v3");
+		expect((await reader.get(["config"])).value).toBe("v3");
+
+		await reader.close();
+		await writer.close();
+	});
+
+	test("readonly rejects unsupported combinations", () => {
+		expect(() => new BunKV(DB_PATH, { readonly: true })).toThrow(
+			"Database not found",
+		);
+		expect(() => new BunKV(":memory:", { readonly: true })).toThrow(
+			"cannot be opened read-only",
+		);
+		const kv = new BunKV(DB_PATH);
+		kv.close();
+		expect(() => new BunKV(DB_PATH, { readonly: true, sweeper: {} })).toThrow(
+			"The sweeper cannot run on a read-only store",
+		);
+	});
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { type BunKV, KvInvalidArgumentError, openKv } from "../src/index";
+
+const DB_PATH = "./tests/data/test_queue.sqlite";
+
+describe("BunKV Queue", () => {
+	let kv: BunKV;
+
+	beforeEach(async () => {
+		kv = await openKv(":memory:");
+	});
+
+	afterEach(async () => {
+		await kv.close();
+	});
+
+	test("delivers enqueued messages", async () => {
+		const received: unknown[] = [];
+		const done = new Promise<void>((resolve) => {
+			kv.listenQueue((msg) => {
+				received.push(msg);
+				if (received.length === 2) resolve();
+			});
+		});
+
+		await kv.enqueue({ job: 1 });
+		await kv.enqueue({ job: 2 });
+		await done;
+
+		expect(received).toEqual([{ job: 1 }, { job: 2 }]);
+	});
+
+	test("respects delay", async () => {
+		const start = Date.now();
+		const delivered = new Promise<number>((resolve) => {
+			kv.listenQueue(() => resolve(Date.now()));
+		});
+
+		await kv.enqueue("later", { delay: 50 });
+		expect((await delivered) - start).toBeGreaterThanOrEqual(45);
+	});
+
+	test("retries with backoff then writes keysIfUndelivered", async () => {
+		let attempts = 0;
+		kv.listenQueue(() => {
+			attempts++;
+			throw new Error("handler failure");
+		});
+
+		await kv.enqueue("dead letter", {
+			backoffSchedule: [10, 10],
+			keysIfUndelivered: [
+				["failed", 1],
+				["failed", "copy"],
+			],
+		});
+
+		const stream = kv.watch([["failed", 1]]);
+		const reader = stream.getReader();
+		await reader.read(); // initial (null)
+		const { value } = await reader.read();
+		reader.cancel();
+
+		expect(value?.[0]?.value).toBe("dead letter");
+		expect(attempts).toBe(3);
+		expect((await kv.get(["failed", "copy"])).value).toBe("dead letter");
+	});
+
+	test("atomic enqueue is rolled back with the commit", async () => {
+		await kv.set(["lock"], "taken");
+		const res = await kv
+			.atomic()
+			.check(["lock"], null)
+			.enqueue("should not exist")
+			.commit();
+		expect(res.ok).toBe(false);
+
+		const received: unknown[] = [];
+		kv.listenQueue((msg) => {
+			received.push(msg);
+		});
+		await kv.atomic().enqueue("committed").commit();
+		await new Promise((r) => setTimeout(r, 50));
+		expect(received).toEqual(["committed"]);
+	});
+
+	test("keeps listening after a keysIfUndelivered write fails", async () => {
+		const errors: [unknown, string][] = [];
+		await kv.close();
+		kv = await openKv(":memory:", {
+			onError: (error, job) => errors.push([error, job]),
+		});
+		await kv.defineIndex<{ email: string }>("failedByEmail", {
+			prefix: ["failed"],
+			on: (value) => value.email,
+			unique: true,
+		});
+		await kv.set(["failed", "a"], { email: "taken" });
+
+		const received: unknown[] = [];
+		const done = new Promise<void>((resolve) => {
+			kv.listenQueue((msg) => {
+				if (msg === "second") {
+					received.push(msg);
+					resolve();
+					return;
+				}
+				throw new Error("handler failure");
+			});
+		});
+		await kv.enqueue(
+			{ email: "taken" },
+			{ backoffSchedule: [10], keysIfUndelivered: [["failed", "b"]] },
+		);
+		await new Promise((r) => setTimeout(r, 50));
+		await kv.enqueue("second");
+		await done;
+
+		expect(received).toEqual(["second"]);
+		expect(errors.map(([, job]) => job)).toEqual(["queue"]);
+		expect((await kv.get(["failed", "b"])).value).toBeNull();
+	});
+
+	test("rejects invalid options and double listeners", async () => {
+		expect(() => kv.atomic().enqueue("x", { delay: -1 })).toThrow(
+			KvInvalidArgumentError,
+		);
+		expect(() =>
+			kv.atomic().enqueue("x", { backoffSchedule: [1, 2, 3, 4, 5, 6] }),
+		).toThrow(KvInvalidArgumentError);
+
+		const first = kv.listenQueue(() => {});
+		await expect(kv.listenQueue(() => {})).rejects.toThrow();
+		await kv.close();
+		await first; // resolves on close
+		kv = await openKv(":memory:");
+	});
+});
+
+describe("BunKV Queue Persistence", () => {
+	afterEach(() => {
+		if (existsSync(DB_PATH)) {
+			unlinkSync(DB_PATH);
+		}
+	});
+
+	test("messages survive a restart", async () => {
+		const kv1 = await openKv(DB_PATH);
+		await kv1.enqueue({ persisted: true });
+		await kv1.close();
+
+		const kv2 = await openKv(DB_PATH);
+		const msg = await new Promise((resolve) => {
+			kv2.listenQueue(resolve);
+		});
+		await kv2.close();
+		expect(msg).toEqual({ persisted: true });
+	});
+});
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { rmSync } from "node:fs";
+import { openKv } from "../src/index";
+import { BunKV } from "../src/kv";
+
+const DIR = "./tests/data/readers";
+const DB_PATH = `${DIR}/readers.sqlite`;
+
+describe("Reader Connections", () => {
+	afterEach(() => {
+		rmSync(DIR, { recursive: true, force: true });
+	});
+
+	test("eventual reads see committed writes", async () => {
+		const kv = await openKv(DB_PATH);
+		await kv.set(["a"], 1);
+		await kv.set(["b"], 2);
+
+		const a = await kv.get(["a"], { consistency: "eventual" });
+		expect(a.value).toBe(1);
+		const many = await kv.getMany([["a"], ["b"]], { consistency: "eventual" });
+		expect(many.map((e) => e.value)).toEqual([1, 2]);
+
+		await kv.set(["a"], 3);
+		expect((await kv.get(["a"], { consistency: "eventual" })).value).toBe(3);
+		await kv.close();
+	});
+
+	test("an eventual list iterates its own snapshot while writes continue", async () => {
+		const kv = await openKv(DB_PATH);
+		for (let i = 0; i < 10; i++) await kv.set(["n", i], i);
+
+		const seen = [];
+		for await (const entry of kv.list<number>(
+			{ prefix: ["n"] },
+			{ consistency: "eventual" },
+		)) {
+			seen.push(entry.value);
+			// Writes go through the writer while the reader holds its snapshot
+			await kv.set(["n", 100 + entry.value], 0);
+		}
+		expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+		expect((await kv.get(["n", 109])).value).toBe(0);
+		await kv.close();
+	});
+
+	test("eventual reads do not clean up expired rows", async () => {
+		const kv = await openKv(DB_PATH);
+		await kv.set(["tmp"], 1, { expireIn: 1 });
+		await Bun.sleep(5);
+		expect(
+			(await kv.get(["tmp"], { consistency: "eventual" })).value,
+		).toBeNull();
+		expect(await kv.sweepExpired()).toBe(1);
+		await kv.close();
+	});
+
+	test("falls back to the writer without a pool", async () => {
+		for (const kv of [
+			await openKv(),
+			await openKv(DB_PATH, { readers: 0 }),
+			await openKv(`${DIR}/rollback.sqlite`, { journalMode: "delete" }),
+		]) {
+			await kv.set(["k"], "v");
+			expect((await kv.get(["k"], { consistency: "eventual" })).value).toBe(
+				"v",
+			);
+			await kv.close();
+		}
+	});
+
+	test("validates the pool size", () => {
+		expect(() => new BunKV(DB_PATH, { readers: -1 })).toThrow(
+			"Invalid option 'readers'",
+		);
+	});
+});
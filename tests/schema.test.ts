@@ -0,0 +1,327 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	expectTypeOf,
+	test,
+} from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import {
+	BunKV,
+	KvInvalidArgumentError,
+	type KvStandardSchema,
+	KvU64,
+	KvValidationError,
+	openKv,
+} from "../src/index";
+
+const DB_PATH = "./tests/data/test_schema.sqlite";
+
+interface UserInput {
+	name: string;
+	role?: "admin" | "member";
+}
+
+interface User {
+	name: string;
+	role: "admin" | "member";
+}
+
+// A hand-written Standard Schema, as zod or valibot would provide
+const UserSchema: KvStandardSchema<UserInput, User> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate(value) {
+			const user = value as Partial<UserInput> | null;
+			if (typeof user?.name !== "string") {
+				return { issues: [{ message: "Expected a string", path: ["name"] }] };
+			}
+			return { value: { name: user.name, role: user.role ?? "member" } };
+		},
+	},
+};
+
+const CountSchema: KvStandardSchema<number> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		// Validators may be async
+		async validate(value) {
+			return typeof value === "number"
+				? { value }
+				: { issues: [{ message: "Expected a number" }] };
+		},
+	},
+};
+
+function open(path = ":memory:", validateReads = false) {
+	return openKv(path, {
+		schemas: [
+			{ prefix: ["users"], schema: UserSchema, validateReads },
+			{ prefix: ["users", "count"], schema: CountSchema },
+		],
+	});
+}
+
+describe("Value Schemas", () => {
+	let kv: Awaited<ReturnType<typeof open>>;
+
+	beforeEach(async () => {
+		kv = await open();
+	});
+
+	afterEach(async () => {
+		await kv.close();
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) unlinkSync(DB_PATH + suffix);
+		}
+	});
+
+	test("set stores the validator's output and rejects invalid values", async () => {
+		await kv.set(["users", "alice"], { name: "Alice" });
+		expect((await kv.get(["users", "alice"])).value).toEqual({
+			name: "Alice",
+			role: "member",
+		});
+
+		const error = await kv
+			.set(["users", "bob"], { name: 42 } as unknown as UserInput)
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(KvValidationError);
+		expect(error.code).toBe("VALIDATION_FAILED");
+		expect(error.key).toEqual(["users", "bob"]);
+		expect(error.message).toBe(
+			"Value does not match the schema: name: Expected a string",
+		);
+		expect((await kv.get(["users", "bob"])).value).toBeNull();
+
+		// Keys outside every prefix are not validated
+		await kv.set(["other"], { name: 42 });
+	});
+
+	test("the longest matching prefix applies", async () => {
+		await kv.set(["users", "count"], 1);
+		await expect(
+			kv.set(["users", "count"], "one" as unknown as number),
+		).rejects.toThrow("Value does not match the schema: Expected a number");
+	});
+
+	test("atomic commits validate every set before writing", async () => {
+		const error = await kv
+			.atomic()
+			.set(["users", "alice"], { name: "Alice" })
+			.set(["users", "count"], "one" as unknown as number)
+			.commit()
+			.catch((e) => e);
+		expect(error).toBeInstanceOf(KvValidationError);
+		expect((await kv.get(["users", "alice"])).value).toBeNull();
+
+		await kv.transaction(async (tx) => {
+			tx.set(["users", "carol"], { name: "Carol", role: "admin" });
+		});
+		expect((await kv.get(["users", "carol"])).value?.role).toBe("admin");
+	});
+
+	test("reads validate when validateReads is set", async () => {
+		await kv.close();
+		kv = await open(DB_PATH, true);
+		await kv.set(["users", "alice"], { name: "Alice" });
+		await kv.set(["users", "count"], 1);
+		await kv.close();
+
+		// Written without the schemas, e.g. by an older version
+		const plain = await openKv(DB_PATH);
+		await plain.set(["users", "mallory"], { nickname: "m" });
+		await plain.close();
+
+		kv = await open(DB_PATH, true);
+		expect((await kv.get(["users", "alice"])).value?.name).toBe("Alice");
+		await expect(kv.get(["users", "mallory"])).rejects.toBeInstanceOf(
+			KvValidationError,
+		);
+		await expect(
+			kv.getMany([
+				["users", "alice"],
+				["users", "mallory"],
+			]),
+		).rejects.toBeInstanceOf(KvValidationError);
+		// Only the longest prefix's schema decides; ["users", "count"] does not validate reads
+		expect((await kv.get(["users", "count"])).value).toBe(1);
+
+		const listed: string[] = [];
+		const error = await (async () => {
+			for await (const entry of kv.list({ prefix: ["users"] })) {
+				if (typeof entry.value === "object") listed.push(entry.value.name);
+			}
+		})().catch((e) => e);
+		expect(listed).toEqual(["Alice"]);
+		expect(error).toBeInstanceOf(KvValidationError);
+	});
+
+	test("watch, lookup and listIndex validate reads too", async () => {
+		await kv.close();
+		const plain = await openKv(DB_PATH);
+		await plain.set(["users", "eve"], { name: "Eve" });
+		await plain.set(["users", "mallory"], { nickname: "m" });
+		await plain.close();
+
+		kv = await open(DB_PATH, true);
+		const { value: watched } = await kv
+			.watch([["users", "eve"]])
+			.getReader()
+			.read();
+		expect(watched?.[0]?.value).toEqual({ name: "Eve", role: "member" });
+		await expect(
+			kv
+				.watch([["users", "mallory"]])
+				.getReader()
+				.read(),
+		).rejects.toBeInstanceOf(KvValidationError);
+
+		await kv.defineIndex<{ name?: string }>("byName", {
+			prefix: ["users"],
+			on: (user) => user.name ?? "",
+		});
+		const [eve] = await kv.lookup<User>("byName", "Eve");
+		expect(eve?.value.role).toBe("member");
+		const listed = kv.listIndex<User>("byName", { prefix: [] });
+		await expect(listed.next()).rejects.toBeInstanceOf(KvValidationError);
+	});
+
+	test("watchPrefix and changes validate reads too", async () => {
+		await kv.close();
+		kv = await openKv(DB_PATH, {
+			schemas: [{ prefix: ["users"], schema: UserSchema, validateReads: true }],
+			changePollInterval: 10,
+		});
+		const watched = kv.watchPrefix({ prefix: ["users"] }).getReader();
+
+		// Written without the schemas, e.g. by an older version
+		const plain = await openKv(DB_PATH);
+		await plain.set(["users", "mallory"], { nickname: "m" });
+		await plain.close();
+
+		await expect(watched.read()).rejects.toBeInstanceOf(KvValidationError);
+		await expect(
+			kv.changes({ since: 0 }).getReader().read(),
+		).rejects.toBeInstanceOf(KvValidationError);
+	});
+
+	test("a transforming schema with validateReads reads back its output", async () => {
+		const LengthSchema: KvStandardSchema<string, number> = {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate(value) {
+					return typeof value === "string"
+						? { value: value.length }
+						: { issues: [{ message: "Expected a string" }] };
+				},
+			},
+		};
+		const schemas = [
+			{ prefix: ["names"], schema: LengthSchema, validateReads: true },
+		];
+		await kv.close();
+		kv = (await openKv(DB_PATH, { schemas })) as typeof kv;
+		await kv.set(["names", "alice"], "Alice");
+		expect((await kv.get(["names", "alice"])).value).toBe(5);
+
+		// Other connections skip read validation for the schema too
+		const other = await openKv(DB_PATH, { schemas });
+		expect((await other.get(["names", "alice"])).value).toBe(5);
+		await other.close();
+	});
+
+	test("import, sum, min and max validate writes", async () => {
+		const plain = await openKv();
+		await plain.set(["users", "mallory"], { nickname: "m" });
+		const exported = await new Response(plain.export({ prefix: [] })).text();
+		await plain.close();
+		await expect(kv.import([exported])).rejects.toBeInstanceOf(
+			KvValidationError,
+		);
+		expect((await kv.get(["users", "mallory"])).value).toBeNull();
+
+		const AtMostTen: KvStandardSchema<KvU64> = {
+			"~standard": {
+				version: 1,
+				vendor: "test",
+				validate(value) {
+					return value instanceof KvU64 && value.value <= 10n
+						? { value }
+						: { issues: [{ message: "Expected at most 10" }] };
+				},
+			},
+		};
+		await kv.close();
+		kv = (await openKv(":memory:", {
+			schemas: [
+				{ prefix: ["hits"], schema: AtMostTen },
+				{ prefix: ["hits", "async"], schema: CountSchema },
+			],
+		})) as typeof kv;
+		await kv.atomic().sum(["hits"], 8n).commit();
+		await expect(kv.atomic().sum(["hits"], 5n).commit()).rejects.toBeInstanceOf(
+			KvValidationError,
+		);
+		await expect(
+			kv.atomic().max(["hits"], 11n).commit(),
+		).rejects.toBeInstanceOf(KvValidationError);
+		expect((await kv.get(["hits"])).value).toEqual(new KvU64(8n));
+
+		await expect(
+			kv.atomic().sum(["hits", "async"], 1n).commit(),
+		).rejects.toThrow(
+			"The result of sum is validated inside the commit and needs a synchronous schema",
+		);
+	});
+
+	test("value types are inferred from the key prefix", async () => {
+		const alice = await kv.get(["users", "alice"]);
+		expectTypeOf(alice.value).toEqualTypeOf<User | null>();
+		expectTypeOf((await kv.get(["users", "count"])).value).toEqualTypeOf<
+			number | null
+		>();
+		expectTypeOf((await kv.get(["other"])).value).toEqualTypeOf<unknown>();
+		expectTypeOf((await kv.get<string>(["users", "x"])).value).toEqualTypeOf<
+			string | null
+		>();
+
+		const [user, count] = await kv.getMany([
+			["users", "alice"],
+			["users", "count"],
+		]);
+		expectTypeOf(user.value).toEqualTypeOf<User | null>();
+		expectTypeOf(count.value).toEqualTypeOf<number | null>();
+
+		for await (const entry of kv.list({ prefix: ["users", "count"] })) {
+			expectTypeOf(entry.value).toEqualTypeOf<number>();
+		}
+		for await (const entry of kv.list({ prefix: ["users"] })) {
+			expectTypeOf(entry.value).toEqualTypeOf<User | number>();
+		}
+
+		// Writes only accept the schema's input type; never called
+		const typeErrors = () => [
+			// @ts-expect-error a user needs a name
+			kv.set(["users", "dave"], { role: "admin" }),
+			// @ts-expect-error the count is a number
+			kv.atomic().set(["users", "count"], "one"),
+		];
+		expect(typeErrors).toBeFunction();
+	});
+
+	test("rejects values that are not schemas", () => {
+		expect(
+			() =>
+				new BunKV(":memory:", {
+					schemas: [
+						{ prefix: ["users"], schema: {} as unknown as KvStandardSchema },
+					],
+				}),
+		).toThrow(KvInvalidArgumentError);
+	});
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	type BunKV,
+	KvInvalidArgumentError,
+	KvInvalidKeyError,
+	type KvU64,
+	openKv,
+} from "../src/index";
+
+describe("Subspaces", () => {
+	let kv: BunKV;
+
+	beforeEach(async () => {
+		kv = await openKv();
+	});
+
+	afterEach(async () => {
+		await kv.close();
+	});
+
+	test("keys are relative to the prefix", async () => {
+		const acme = kv.subspace(["tenant", "acme"]);
+		await acme.set(["users", "alice"], { name: "Alice" });
+
+		expect((await kv.get(["tenant", "acme", "users", "alice"])).value).toEqual({
+			name: "Alice",
+		});
+		const entry = await acme.get(["users", "alice"]);
+		expect(entry.key).toEqual(["users", "alice"]);
+		expect(entry.value).toEqual({ name: "Alice" });
+
+		const many = await acme.getMany([["users", "alice"], ["missing"]]);
+		expect(many.map((e) => e.key)).toEqual([["users", "alice"], ["missing"]]);
+		expect(many[1]?.value).toBeNull();
+
+		await acme.delete(["users", "alice"]);
+		expect(
+			(await kv.get(["tenant", "acme", "users", "alice"])).value,
+		).toBeNull();
+	});
+
+	test("list stays inside the subspace and strips the prefix", async () => {
+		const acme = kv.subspace(["tenant", "acme"]);
+		const globex = kv.subspace(["tenant", "globex"]);
+		await acme.set(["users", 1], "a1");
+		await acme.set(["users", 2], "a2");
+		await acme.set(["orders", 1], "o1");
+		await globex.set(["users", 1], "g1");
+
+		const keys = async (iter: AsyncIterable<{ key: unknown }>) => {
+			const out = [];
+			for await (const entry of iter) out.push(entry.key);
+			return out;
+		};
+
+		expect(await keys(acme.list())).toEqual([
+			["orders", 1],
+			["users", 1],
+			["users", 2],
+		]);
+		expect(await keys(acme.list({ prefix: ["users"] }))).toEqual([
+			["users", 1],
+			["users", 2],
+		]);
+		expect(
+			await keys(acme.list({ start: ["users", 2], end: ["users", 9] })),
+		).toEqual([["users", 2]]);
+		expect(await keys(globex.list({ prefix: ["users"] }))).toEqual([
+			["users", 1],
+		]);
+
+		const page = acme.list({ prefix: ["users"] }, { limit: 1 });
+		expect(await keys(page)).toEqual([["users", 1]]);
+		const rest = acme.list({ prefix: ["users"] }, { cursor: page.cursor });
+		expect(await keys(rest)).toEqual([["users", 2]]);
+	});
+
+	test("nested subspaces and watch", async () => {
+		const users = kv.subspace(["tenant", "acme"]).subspace(["users"]);
+		expect(users.prefix).toEqual(["tenant", "acme", "users"]);
+
+		const reader = users.watch([["alice"]]).getReader();
+		const initial = await reader.read();
+		expect(initial.value?.[0]).toEqual({
+			key: ["alice"],
+			value: null,
+			version: null,
+		});
+		await users.set(["alice"], 1);
+		const next = await reader.read();
+		expect(next.value?.[0]?.key).toEqual(["alice"]);
+		expect(next.value?.[0]?.value).toBe(1);
+		await reader.cancel();
+	});
+
+	test("atomic operations span subspaces in one commit", async () => {
+		const acme = kv.subspace(["tenant", "acme"]);
+		const billing = kv.subspace(["billing"]);
+		const current = await acme.get(["plan"]);
+
+		const res = await acme
+			.atomic()
+			.check(["plan"], current.version)
+			.set(["plan"], "pro")
+			.with(billing)
+			.sum(["seats", "acme"], 5n)
+			.commit();
+		expect(res.ok).toBe(true);
+		expect((await kv.get(["tenant", "acme", "plan"])).value).toBe("pro");
+		expect(
+			(await kv.get<KvU64>(["billing", "seats", "acme"])).value?.value,
+		).toBe(5n);
+
+		// A failed check in one subspace discards the writes in the other
+		const failed = await acme
+			.atomic()
+			.check(["plan"], null)
+			.with(billing)
+			.set(["invoices", 1], "draft")
+			.commit();
+		expect(failed.ok).toBe(false);
+		if (!failed.ok)
+			expect(failed.error.key).toEqual(["tenant", "acme", "plan"]);
+		expect((await billing.get(["invoices", 1])).value).toBeNull();
+	});
+
+	test("range checks are relative too", async () => {
+		const acme = kv.subspace(["tenant", "acme"]);
+		await kv.set(["tenant", "other", "users", 1], "not ours");
+		const res = await acme
+			.atomic()
+			.checkRange({ prefix: ["users"] }, null)
+			.set(["users", 1], "first")
+			.commit();
+		expect(res.ok).toBe(true);
+	});
+
+	test("rejects other stores and invalid prefixes", async () => {
+		const other = await openKv();
+		expect(() =>
+			kv
+				.subspace(["a"])
+				.atomic()
+				.with(other.subspace(["a"])),
+		).toThrow(KvInvalidArgumentError);
+		await other.close();
+
+		expect(() => kv.subspace([Symbol("x") as unknown as string])).toThrow(
+			KvInvalidKeyError,
+		);
+	});
+});
@@ -0,0 +1,96 @@
+import { Database } from "bun:sqlite";
+import { describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import {
+	BunKV,
+	KvDatabaseError,
+	KvInvalidArgumentError,
+	openKv,
+} from "../src/index";
+
+const DB_PATH = "./tests/data/test_sweeper.sqlite";
+
+const wait = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("TTL Sweeper", () => {
+	test("sweepExpired deletes expired rows in batches", async () => {
+		const kv = await openKv(":memory:", {
+			sweeper: { interval: 60_000, batchSize: 2 },
+		});
+		for (let i = 0; i < 5; i++) {
+			await kv.set(["s", i], i, { expireIn: 5 });
+		}
+		await kv.set(["s", "kept"], "kept");
+		await wait(15);
+
+		expect(await kv.sweepExpired()).toBe(5);
+		expect(await kv.sweepExpired()).toBe(0);
+
+		const remaining = [];
+		for await (const entry of kv.list({ prefix: ["s"] })) {
+			remaining.push(entry.value);
+		}
+		expect(remaining).toEqual(["kept"]);
+		await kv.close();
+	});
+
+	test("background sweeper notifies watchers", async () => {
+		const kv = await openKv(":memory:", { sweeper: { interval: 10 } });
+		await kv.set(["session"], "active", { expireIn: 20 });
+
+		const reader = kv.watch([["session"]]).getReader();
+		const { value: init } = await reader.read();
+		expect(init?.[0]?.value).toBe("active");
+
+		// The sweeper, not a read, must produce this update
+		const { value: update } = await reader.read();
+		expect(update?.[0]?.value).toBeNull();
+		reader.cancel();
+		await kv.close();
+	});
+
+	test("a failed sweep is reported and retried on the next tick", async () => {
+		const errors: unknown[] = [];
+		const kv = await openKv(DB_PATH, {
+			busyTimeout: 1,
+			sweeper: { interval: 10 },
+			onError: (error, job) => {
+				expect(job).toBe("sweeper");
+				errors.push(error);
+			},
+		});
+		await kv.set(["session"], "active", { expireIn: 5 });
+
+		// Another connection holds the write lock while the sweeper runs
+		const other = new Database(DB_PATH);
+		other.run("BEGIN IMMEDIATE");
+		await wait(60);
+		expect(errors.length).toBeGreaterThan(0);
+		expect(errors[0]).toBeInstanceOf(KvDatabaseError);
+
+		other.run("COMMIT");
+		other.close();
+		await wait(60);
+		await kv.close();
+		const db = new Database(DB_PATH, { readonly: true });
+		const row = db.query("SELECT count(*) AS n FROM kv").get() as { n: number };
+		db.close();
+		expect(row.n).toBe(0);
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) unlinkSync(DB_PATH + suffix);
+		}
+	});
+
+	test("rejects invalid options before opening the database", () => {
+		for (const sweeper of [
+			{ interval: 0 },
+			{ interval: Number.POSITIVE_INFINITY },
+			{ batchSize: 1.5 },
+		]) {
+			expect(() => new BunKV(DB_PATH, { sweeper })).toThrow(
+				KvInvalidArgumentError,
+			);
+		}
+		expect(existsSync(DB_PATH)).toBe(false);
+	});
+});
@@ -0,0 +1,239 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import {
+	type Attributes,
+	createNoopMeter,
+	type MeterProvider,
+	type ObservableCallback,
+	type ObservableResult,
+	type Span,
+	type TracerProvider,
+} from "@opentelemetry/api";
+import { openKv } from "../src/index";
+
+const DB_PATH = "./tests/data/test_telemetry.sqlite";
+
+interface RecordedSpan {
+	name: string;
+	attributes: Attributes;
+	status?: number;
+	ended: boolean;
+}
+
+// Minimal in-memory providers; the SDK is not a dependency
+function recordingTracer() {
+	const spans: RecordedSpan[] = [];
+	const startSpan = (name: string, options?: { attributes?: Attributes }) => {
+		const recorded: RecordedSpan = {
+			name,
+			attributes: { ...options?.attributes },
+			ended: false,
+		};
+		spans.push(recorded);
+		const span = {
+			setAttribute(key: string, value: unknown) {
+				recorded.attributes[key] = value as string;
+				return span;
+			},
+			setStatus(status: { code: number }) {
+				recorded.status = status.code;
+				return span;
+			},
+			recordException() {},
+			end() {
+				recorded.ended = true;
+			},
+		};
+		return span as unknown as Span;
+	};
+	const tracer = {
+		startSpan,
+		startActiveSpan(name: string, ...args: unknown[]) {
+			const fn = args[args.length - 1] as (span: Span) => unknown;
+			return fn(startSpan(name));
+		},
+	};
+	const provider = { getTracer: () => tracer } as unknown as TracerProvider;
+	return { provider, spans };
+}
+
+function recordingMeter() {
+	const points: { name: string; value: number; attributes: Attributes }[] = [];
+	const callbacks: ObservableCallback[] = [];
+	const instrument = (name: string) => {
+		const record = (value: number, attributes: Attributes = {}) => {
+			points.push({ name, value, attributes });
+		};
+		return { add: record, record };
+	};
+	const meter = Object.assign(createNoopMeter(), {
+		createCounter: instrument,
+		createHistogram: instrument,
+		createUpDownCounter: instrument,
+		createObservableGauge: (name: string) => ({
+			addCallback(callback: ObservableCallback) {
+				callbacks.push(callback);
+			},
+			removeCallback(callback: ObservableCallback) {
+				callbacks.splice(callbacks.indexOf(callback), 1);
+			},
+			name,
+		}),
+	});
+	const provider = { getMeter: () => meter } as unknown as MeterProvider;
+	const collect = async () => {
+		const observed: { value: number; attributes?: Attributes }[] = [];
+		const result = {
+			observe: (value: number, attributes?: Attributes) =>
+				observed.push({ value, attributes }),
+		} as ObservableResult;
+		for (const callback of callbacks) await callback(result);
+		return observed;
+	};
+	const sum = (name: string, attributes: Attributes = {}) =>
+		points
+			.filter(
+				(p) =>
+					p.name === name &&
+					Object.entries(attributes).every(([k, v]) => p.attributes[k] === v),
+			)
+			.reduce((total, p) => total + p.value, 0);
+	return { provider, points, callbacks, collect, sum };
+}
+
+describe("Telemetry", () => {
+	afterEach(() => {
+		for (const suffix of ["", "-wal", "-shm"]) {
+			if (existsSync(DB_PATH + suffix)) unlinkSync(DB_PATH + suffix);
+		}
+	});
+
+	test("spans cover operations, list iteration and watch delivery", async () => {
+		const { provider, spans } = recordingTracer();
+		const kv = await openKv(":memory:", { telemetry: { tracing: provider } });
+
+		// bigint and Uint8Array parts used to break the key attribute
+		await kv.set(["big", 7n, new Uint8Array([10, 255])], 1);
+		await kv.get(["big", 7n, new Uint8Array([10, 255])]);
+		expect(spans[0]).toMatchObject({
+			name: "bunkv.set",
+			attributes: { "db.key": '["big",7n,0x0aff]' },
+			ended: true,
+		});
+		expect(spans[1]?.name).toBe("bunkv.get");
+
+		await kv.set(["users", 1], "a");
+		await kv.set(["users", 2], "b");
+		for await (const _ of kv.list({ prefix: ["users"] })) {
+			break;
+		}
+		const list = spans.find((s) => s.name === "bunkv.list");
+		expect(list).toMatchObject({
+			attributes: { "db.prefix": '["users"]', "db.rows_scanned": 1 },
+			ended: true,
+		});
+
+		const reader = kv.watch([["users", 1]]).getReader();
+		await reader.read();
+		await kv.set(["users", 1], "c");
+		await reader.read();
+		await reader.cancel();
+		expect(spans.filter((s) => s.name === "bunkv.watch.deliver")).toHaveLength(
+			2,
+		);
+
+		await expect(kv.atomic().sum(["users", 1], 1n).commit()).rejects.toThrow();
+		expect(spans.at(-1)).toMatchObject({
+			name: "bunkv.atomic_commit",
+			status: 2,
+			ended: true,
+		});
+		await kv.close();
+	});
+
+	test("a subspace list that stops early still ends its span", async () => {
+		const { provider, spans } = recordingTracer();
+		const kv = await openKv(":memory:", { telemetry: { tracing: provider } });
+		const acme = kv.subspace(["acme"]);
+		await acme.set(["a"], 1);
+		await acme.set(["b"], 2);
+
+		for await (const entry of acme.list()) {
+			expect(entry.key).toEqual(["a"]);
+			break;
+		}
+		expect(spans.find((s) => s.name === "bunkv.list")).toMatchObject({
+			attributes: { "db.rows_scanned": 1 },
+			ended: true,
+		});
+		await kv.close();
+	});
+
+	test("metrics record operations, conflicts, watchers, rows and file sizes", async () => {
+		const meter = recordingMeter();
+		const kv = await openKv(DB_PATH, {
+			telemetry: { metrics: meter.provider },
+		});
+
+		await kv.set(["a"], 1);
+		await kv.get(["a"]);
+		await kv.get(["a"]);
+		expect(meter.sum("bunkv.operations", { "db.operation.name": "get" })).toBe(
+			2,
+		);
+		expect(
+			meter.points.some(
+				(p) =>
+					p.name === "bunkv.operation.duration" &&
+					p.attributes["db.operation.name"] === "set",
+			),
+		).toBe(true);
+
+		await kv.atomic().check(["a"], null).set(["a"], 2).commit();
+		await kv.atomic().set(["b"], 2).commit();
+		expect(
+			meter.sum("bunkv.atomic.commits", {
+				"bunkv.commit.outcome": "committed",
+			}),
+		).toBe(1);
+		expect(
+			meter.sum("bunkv.atomic.commits", {
+				"bunkv.commit.outcome": "CHECK_FAILED",
+			}),
+		).toBe(1);
+
+		const failed = await kv
+			.atomic()
+			.sum(["a"], 1n)
+			.commit()
+			.catch((e) => e);
+		expect(failed).toBeInstanceOf(Error);
+		expect(
+			meter.sum("bunkv.operations", {
+				"db.operation.name": "atomic_commit",
+				"error.type": "KvInvalidValueError",
+			}),
+		).toBe(1);
+
+		const stream = kv.watchPrefix({ prefix: ["a"] });
+		expect(meter.sum("bunkv.watchers.active")).toBe(1);
+		await stream.cancel();
+		expect(meter.sum("bunkv.watchers.active")).toBe(0);
+
+		for await (const _ of kv.list({ prefix: [] })) {
+			// drain
+		}
+		expect(meter.sum("bunkv.list.rows_scanned")).toBe(2);
+
+		const sizes = await meter.collect();
+		expect(
+			sizes.find((s) => s.attributes?.["bunkv.file"] === "db")?.value,
+		).toBe(Bun.file(DB_PATH).size);
+		expect(sizes.some((s) => s.attributes?.["bunkv.file"] === "wal")).toBe(
+			true,
+		);
+
+		await kv.close();
+		expect(meter.callbacks).toHaveLength(0);
+	});
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import {
+	type BunKV,
+	KvCheckError,
+	KvInvalidArgumentError,
+	KvInvalidStateError,
+	type KvTransaction,
+	KvTransactionConflictError,
+	type KvU64,
+	KvUniqueConflictError,
+	openKv,
+} from "../src/index";
+
+describe("Transactions", () => {
+	let kv: BunKV;
+
+	beforeEach(async () => {
+		kv = await openKv();
+	});
+
+	afterEach(async () => {
+		await kv.close();
+	});
+
+	test("commits reads and writes together", async () => {
+		await kv.set(["accounts", "a"], 100);
+		await kv.set(["accounts", "b"], 0);
+
+		const moved = await kv.transaction(async (tx) => {
+			const [a, b] = await tx.getMany<number>([
+				["accounts", "a"],
+				["accounts", "b"],
+			]);
+			tx.set(["accounts", "a"], (a?.value ?? 0) - 30);
+			tx.set(["accounts", "b"], (b?.value ?? 0) + 30);
+			tx.sum(["transfers"], 1n);
+			return 30;
+		});
+
+		expect(moved).toBe(30);
+		expect((await kv.get(["accounts", "a"])).value).toBe(70);
+		expect((await kv.get(["accounts", "b"])).value).toBe(30);
+		expect((await kv.get<KvU64>(["transfers"])).value?.value).toBe(1n);
+	});
+
+	test("re-runs the callback when a read key changes", async () => {
+		await kv.set(["counter"], 0);
+		let runs = 0;
+
+		await kv.transaction(async (tx) => {
+			runs++;
+			const current = await tx.get<number>(["counter"]);
+			// A concurrent writer gets in between the first read and the commit
+			if (runs === 1) await kv.set(["counter"], 10);
+			tx.set(["counter"], (current.value ?? 0) + 1);
+		});
+
+		expect(runs).toBe(2);
+		expect((await kv.get(["counter"])).value).toBe(11);
+	});
+
+	test("concurrent increments do not lose updates", async () => {
+		const increment = () =>
+			kv.transaction(
+				async (tx) => {
+					const current = await tx.get<number>(["n"]);
+					await Bun.sleep(1);
+					tx.set(["n"], (current.value ?? 0) + 1);
+				},
+				{ maxRetries: 20, initialBackoff: 1 },
+			);
+
+		await Promise.all(Array.from({ length: 5 }, increment));
+		expect((await kv.get(["n"])).value).toBe(5);
+	});
+
+	test("tracks keys that were missing when read", async () => {
+		let runs = 0;
+		await kv.transaction(async (tx) => {
+			runs++;
+			const existing = await tx.get(["user", "alice"]);
+			if (runs === 1) await kv.set(["user", "alice"], "taken");
+			if (existing.value === null) tx.set(["user", "alice"], "mine");
+		});
+
+		expect(runs).toBe(2);
+		expect((await kv.get(["user", "alice"])).value).toBe("taken");
+	});
+
+	test("gives up after maxRetries", async () => {
+		let runs = 0;
+		const error = await kv
+			.transaction(
+				async (tx) => {
+					runs++;
+					await tx.get(["hot"]);
+					await kv.set(["hot"], runs);
+					tx.set(["other"], runs);
+				},
+				{ maxRetries: 2, initialBackoff: 0 },
+			)
+			.catch((e) => e);
+
+		expect(error).toBeInstanceOf(KvTransactionConflictError);
+		expect(error.code).toBe("TRANSACTION_CONFLICT");
+		expect(error.attempts).toBe(3);
+		expect(error.cause).toBeInstanceOf(KvCheckError);
+		expect(runs).toBe(3);
+		expect((await kv.get(["other"])).value).toBeNull();
+	});
+
+	test("a throwing callback writes nothing and is not retried", async () => {
+		let runs = 0;
+		await expect(
+			kv.transaction(async (tx) => {
+				runs++;
+				tx.set(["a"], 1);
+				throw new Error("abort");
+			}),
+		).rejects.toThrow("abort");
+
+		expect(runs).toBe(1);
+		expect((await kv.get(["a"])).value).toBeNull();
+	});
+
+	test("unique conflicts are thrown, not retried", async () => {
+		await kv.defineIndex<string>("byEmail", {
+			prefix: ["users"],
+			on: (email) => email,
+			unique: true,
+		});
+		await kv.set(["users", "alice"], "a@x.io");
+
+		let runs = 0;
+		await expect(
+			kv.transaction((tx) => {
+				runs++;
+				tx.set(["users", "bob"], "a@x.io");
+			}),
+		).rejects.toBeInstanceOf(KvUniqueConflictError);
+		expect(runs).toBe(1);
+	});
+
+	test("the handle cannot be used after the callback returns", async () => {
+		let leaked: KvTransaction | undefined;
+		await kv.transaction((tx) => {
+			leaked = tx;
+		});
+
+		expect(() => leaked?.set(["late"], 1)).toThrow(KvInvalidStateError);
+		await expect(leaked?.get(["late"])).rejects.toThrow(KvInvalidStateError);
+	});
+
+	test("validates options", async () => {
+		await expect(
+			kv.transaction(() => {}, { maxRetries: -1 }),
+		).rejects.toBeInstanceOf(KvInvalidArgumentError);
+		await expect(
+			kv.transaction(() => {}, { maxBackoff: Number.NaN }),
+		).rejects.toThrow("Invalid option 'maxBackoff'");
+	});
+});
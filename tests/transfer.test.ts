@@ -0,0 +1,229 @@
+import { describe, expect, test } from "bun:test";
+import { jsonCodec, KvInvalidValueError, KvU64, openKv } from "../src/index";
+
+async function drain(stream: ReadableStream<Uint8Array>): Promise<string> {
+	return new Response(stream).text();
+}
+
+describe("Export and Import", () => {
+	test("round-trips keys, values and expiry exactly", async () => {
+		const source = await openKv();
+		const bytes = new Uint8Array([0, 1, 255, 0]);
+		await source.set(["t", 1n, bytes], new Map([["a", new Date(0)]]));
+		await source.set(["t", -(2n ** 63n)], new KvU64(5n));
+		await source.set(["t", -0], "negative zero");
+		await source.set(["t", Number.NEGATIVE_INFINITY], "infinity");
+		await source.set(["t", true, "x\u0000y"], null);
+		await source.set(["t", "ttl"], 1, { expireIn: 60_000 });
+
+		const ndjson = await drain(source.export({ prefix: ["t"] }));
+		expect(ndjson.trim().split("\n")).toHaveLength(6);
+
+		const target = await openKv();
+		const result = await target.import([ndjson]);
+		expect(result).toEqual({ imported: 6, skipped: 0 });
+
+		const a = [];
+		for await (const entry of source.list({ prefix: ["t"] })) a.push(entry);
+		const b = [];
+		for await (const entry of target.list({ prefix: ["t"] })) b.push(entry);
+		expect(b.map((e) => e.key)).toEqual(a.map((e) => e.key));
+		expect(b.map((e) => e.value)).toEqual(a.map((e) => e.value));
+		expect(Object.is(b[2]?.key[1], -0)).toBe(true);
+		expect((await target.get(["t", 1n, bytes])).value).toEqual(
+			new Map([["a", new Date(0)]]),
+		);
+		expect(
+			(await target.getMany([["t", 1n, bytes]]))[0]?.key[2],
+		).toBeInstanceOf(Uint8Array);
+
+		await source.close();
+		await target.close();
+	});
+
+	test("exports only the selected range", async () => {
+		const kv = await openKv();
+		await kv.set(["config", "theme"], "dark");
+		await kv.set(["users", "t1", "alice"], 1);
+		await kv.set(["users", "t2", "bob"], 2);
+
+		const lines = (await drain(kv.export({ prefix: ["users", "t1"] })))
+			.trim()
+			.split("\n")
+			.map((line) => JSON.parse(line));
+		expect(lines).toHaveLength(1);
+		expect(lines[0].key).toEqual([
+			{ type: "string", value: "users" },
+			{ type: "string", value: "t1" },
+			{ type: "string", value: "alice" },
+		]);
+		expect(typeof lines[0].version).toBe("string");
+		expect(lines[0].expireAt).toBeNull();
+
+		await kv.close();
+	});
+
+	test("exports more entries than one batch", async () => {
+		const kv = await openKv();
+		const op = kv.atomic();
+		for (let i = 0; i < 1200; i++) op.set(["n", i], i);
+		await op.commit();
+
+		const target = await openKv();
+		const result = await target.import(kv.export({ prefix: ["n"] }), {
+			batchSize: 100,
+		});
+		expect(result.imported).toBe(1200);
+		expect((await target.get(["n", 1199])).value).toBe(1199);
+
+		await kv.close();
+		await target.close();
+	});
+
+	test("reads values written with another codec", async () => {
+		const source = await openKv(":memory:", { codec: jsonCodec });
+		await source.set(["j"], { a: 1 });
+		const target = await openKv();
+		await target.import(source.export({ prefix: [] }));
+		expect((await target.get(["j"])).value).toEqual({ a: 1 });
+		await source.close();
+		await target.close();
+	});
+
+	test("exports decoded values, independent of codec, compression and keys", async () => {
+		const source = await openKv(":memory:", {
+			compression: { algorithm: "gzip", threshold: 1 },
+			encryption: {
+				keys: { a: new Uint8Array(32).fill(1) },
+				currentKeyId: "a",
+			},
+		});
+		const value = {
+			text: "x".repeat(100),
+			nested: [1, -0, Number.NaN, 2n, undefined, new Uint8Array([1, 2])],
+			set: new Set(["s"]),
+			when: new Date(5),
+			pattern: /a+/gi,
+			__proto__: null,
+		};
+		await source.set(["v"], value);
+		const ndjson = await drain(source.export({ prefix: [] }));
+		const line = JSON.parse(ndjson);
+		expect(line.value.type).toBe("object");
+		expect(line.value.value.text).toEqual({
+			type: "string",
+			value: "x".repeat(100),
+		});
+
+		// Another codec, no compression, another key
+		const target = await openKv(":memory:", {
+			encryption: {
+				keys: { b: new Uint8Array(32).fill(2) },
+				currentKeyId: "b",
+			},
+		});
+		await target.import([ndjson]);
+		expect((await target.get(["v"])).value).toEqual({ ...value });
+		const json = await openKv(":memory:", { codec: jsonCodec });
+		await json.import([
+			'{"key":[{"type":"string","value":"j"}],"value":{"type":"object","value":{"a":{"type":"number","value":1}}},"version":"1","expireAt":null}',
+		]);
+		expect((await json.get(["j"])).value).toEqual({ a: 1 });
+
+		await source.close();
+		await target.close();
+		await json.close();
+	});
+
+	test("rejects values the export format cannot represent", async () => {
+		const kv = await openKv();
+		const cyclic: unknown[] = [];
+		cyclic.push(cyclic);
+		await kv.set(["cyclic"], cyclic);
+		await expect(drain(kv.export({ prefix: [] }))).rejects.toBeInstanceOf(
+			KvInvalidValueError,
+		);
+		await kv.close();
+	});
+
+	test("conflict modes", async () => {
+		const source = await openKv();
+		await source.set(["k", 1], "new");
+		await source.set(["k", 2], "new");
+		const ndjson = await drain(source.export({ prefix: ["k"] }));
+
+		const target = await openKv();
+		await target.set(["k", 1], "old");
+
+		expect(await target.import([ndjson], { mode: "skip" })).toEqual({
+			imported: 1,
+			skipped: 1,
+		});
+		expect((await target.get(["k", 1])).value).toBe("old");
+
+		await target.delete(["k", 2]);
+		await expect(target.import([ndjson], { mode: "fail" })).rejects.toThrow(
+			"Key on line 1 already exists",
+		);
+		// The failing batch is rolled back as a whole
+		expect((await target.get(["k", 2])).value).toBeNull();
+
+		await target.import([ndjson], { mode: "overwrite" });
+		expect((await target.get(["k", 1])).value).toBe("new");
+
+		await source.close();
+		await target.close();
+	});
+
+	test("assigns fresh versionstamps and notifies watchers", async () => {
+		const source = await openKv();
+		for (let i = 0; i < 5; i++) await source.set(["v"], i);
+		const ndjson = await drain(source.export({ prefix: ["v"] }));
+
+		const target = await openKv();
+		const reader = target.watch([["v"]]).getReader();
+		await reader.read();
+		await target.import([ndjson]);
+		const { value } = await reader.read();
+		expect(value?.[0]?.value).toBe(4);
+		expect(value?.[0]?.version).toBe("00000000000000000001");
+
+		reader.cancel();
+		await source.close();
+		await target.close();
+	});
+
+	test("skips expired entries and rejects malformed input", async () => {
+		const kv = await openKv();
+		const expired = JSON.stringify({
+			key: [{ type: "string", value: "gone" }],
+			value: { type: "number", value: 1 },
+			version: "00000000000000000001",
+			expireAt: 1,
+		});
+		expect(await kv.import([`${expired}\n\n`])).toEqual({
+			imported: 0,
+			skipped: 1,
+		});
+
+		await expect(kv.import([`${expired}\n{oops`])).rejects.toThrow(
+			"Invalid export entry on line 2",
+		);
+		const unknown = expired
+			.replace('"number"', '"custom"')
+			.replace('"expireAt":1', '"expireAt":null');
+		await expect(kv.import([unknown])).rejects.toThrow(
+			"Invalid export entry on line 1",
+		);
+		await expect(
+			kv.import([], { mode: "replace" as "overwrite" }),
+		).rejects.toThrow("Import mode must be");
+		for (const batchSize of [0, -5, Number.NaN, 1.5]) {
+			await expect(kv.import([], { batchSize })).rejects.toThrow(
+				"Invalid option 'batchSize': expected a positive integer",
+			);
+		}
+
+		await kv.close();
+	});
+});
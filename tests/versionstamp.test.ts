@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { existsSync, unlinkSync } from "node:fs";
+import { openKv } from "../src/index";
+
+const DB_PATH = "./tests/data/test_versionstamp.sqlite";
+
+describe("Versionstamps", () => {
+	afterEach(() => {
+		if (existsSync(DB_PATH)) {
+			unlinkSync(DB_PATH);
+		}
+	});
+
+	test("are 20 hex characters and strictly increasing", async () => {
+		const kv = await openKv(":memory:");
+		const versions: string[] = [];
+		for (let i = 0; i < 100; i++) {
+			const res = await kv.set(["v", i % 3], i);
+			if (res.ok) versions.push(res.version);
+		}
+		const res = await kv.atomic().set(["a"], 1).delete(["v", 0]).commit();
+		if (res.ok) versions.push(res.version);
+
+		for (const v of versions) {
+			expect(v).toMatch(/^[0-9a-f]{20}$/);
+		}
+		for (let i = 1; i < versions.length; i++) {
+			expect((versions[i] as string) > (versions[i - 1] as string)).toBe(true);
+		}
+		expect((await kv.get(["a"])).version).toBe(versions.at(-1) as string);
+		await kv.close();
+	});
+
+	test("stay monotonic across restarts and connections", async () => {
+		const kv1 = await openKv(DB_PATH);
+		const r1 = await kv1.set(["k"], 1);
+		await kv1.close();
+
+		const kv2 = await openKv(DB_PATH);
+		const kv3 = await openKv(DB_PATH);
+		const r2 = await kv2.set(["k"], 2);
+		const r3 = await kv3.set(["k"], 3);
+		const r4 = await kv2.atomic().set(["k"], 4).commit();
+		await kv2.close();
+		await kv3.close();
+
+		const versions = [r1, r2, r3, r4].map((r) => (r.ok ? r.version : ""));
+		expect([...versions].sort()).toEqual(versions);
+		expect(new Set(versions).size).toBe(4);
+	});
+});
@@ -77,4 +77,79 @@ describe("BunKV Watch", () => {
 
 		reader.cancel();
 	});
+
+	test("watch supports bigint and Uint8Array keys", async () => {
+		const keys = [
+			["big", 1n],
+			["bin", new Uint8Array([0, 1])],
+		];
+		const stream = kv.watch(keys);
+		const reader = stream.getReader();
+
+		const { value: init } = await reader.read();
+		expect(init?.map((e) => e.value)).toEqual([null, null]);
+
+		await kv.set(["bin", new Uint8Array([0, 1])], "bytes");
+		const { value: update } = await reader.read();
+		expect(update?.map((e) => e.value)).toEqual([null, "bytes"]);
+
+		reader.cancel();
+	});
+
+	test("watchPrefix emits per-key events for matching keys", async () => {
+		const reader = kv.watchPrefix({ prefix: ["users"] }).getReader();
+
+		await kv.set(["posts", 1], "ignored");
+		const res = await kv.set(["users", "alice"], { name: "Alice" });
+		await kv
+			.atomic()
+			.set(["users", "bob"], "Bob")
+			.delete(["users", "alice"])
+			.commit();
+
+		const events = [];
+		for (let i = 0; i < 3; i++) {
+			events.push((await reader.read()).value);
+		}
+		reader.cancel();
+
+		expect(events[0]).toEqual({
+			type: "set",
+			key: ["users", "alice"],
+			value: { name: "Alice" },
+			version: res.ok ? res.version : "",
+		});
+		expect(events[1]?.type).toBe("set");
+		expect(events[1]?.key).toEqual(["users", "bob"]);
+		expect(events[1]?.value).toBe("Bob");
+		expect(events[2]).toEqual({
+			type: "delete",
+			key: ["users", "alice"],
+			value: null,
+			version: null,
+		});
+	});
+
+	test("watchPrefix supports ranges and reports expirations", async () => {
+		const reader = kv
+			.watchPrefix({ start: ["n", 10], end: ["n", 20] })
+			.getReader();
+
+		await kv.set(["n", 5], "below");
+		await kv.set(["n", 20], "above");
+		await kv.set(["n", 15], "inside", { expireIn: 5 });
+		const { value: set } = await reader.read();
+		expect(set?.key).toEqual(["n", 15]);
+
+		await new Promise((r) => setTimeout(r, 15));
+		await kv.sweepExpired();
+		const { value: expired } = await reader.read();
+		expect(expired).toEqual({
+			type: "expire",
+			key: ["n", 15],
+			value: null,
+			version: null,
+		});
+		reader.cancel();
+	});
 });